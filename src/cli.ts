@@ -5,22 +5,40 @@ import * as path from 'path';
 import * as program from 'commander';
 import * as fs from 'fs-extra';
 
+import {setLauncher} from './launcher';
 import {createAsar} from './scripts/createAsar';
+import {createProject, ProjectType} from './scripts/createProject';
 import {createProviderZip} from './scripts/createProviderZip';
+import {createRelease} from './scripts/createRelease';
 import {createRuntimeChannels} from './scripts/createRuntimeChannels';
+import {runDoctor} from './scripts/doctor';
+import {explainManifest} from './scripts/explainManifest';
+import {importRelease} from './scripts/importRelease';
+import {lintManifests} from './scripts/lintManifests';
 import {startServer, createServer, startApplication, createDefaultMiddleware} from './server/server';
+import {selectPort} from './server/ports';
+import {DEFAULT_MATRIX_PATH, runTestMatrix} from './testing/matrix';
 import {runIntegrationTests, runUnitTests} from './testing/runner';
-import {CLIArguments, BuildCommandArgs, CLITestArguments, JestMode} from './types';
+import {CLIArguments, BuildCommandArgs, CLITestArguments, ImportCommandArgs, JestMode, ManifestCommandArgs, ReleaseCommandArgs} from './types';
 import {allowHook, Hook, loadHooks} from './utils/allowHook';
 import {getModuleRoot} from './utils/getModuleRoot';
-import {getProjectConfig} from './utils/getProjectConfig';
+import {getProjectConfig, getProjectConfigSources, getConfigProfile, overrideProjectConfig, setConfigProfile} from './utils/getProjectConfig';
 import {getRootDirectory} from './utils/getRootDirectory';
+import {setHttpFixtureMode} from './utils/httpFixtures';
+import {getBuildStatus} from './webpack/buildStatus';
 import {executeAllPlugins} from './webpack/plugins/pluginExecutor';
-import {executeWebpack} from './webpack/executeWebpack';
+import {executeWebpack, watchWebpack} from './webpack/executeWebpack';
 import {prepareRuntime} from './utils/runtime';
 
-// Load hooks (if any)
-loadHooks();
+/**
+ * Global options that take a value, see below. Needed to find the command before the args have been parsed.
+ */
+const GLOBAL_VALUE_OPTIONS = ['-e', '--env', '--fixtures', '--launcher'];
+
+// Load hooks (if any). Skipped by 'doctor', which checks that hooks.ts compiles rather than exiting if it doesn't.
+if (getCommandName() !== 'doctor') {
+    loadHooks();
+}
 
 const defaultStartArgs: Required<CLIArguments> = {
     providerVersion: 'local',
@@ -31,15 +49,57 @@ const defaultStartArgs: Required<CLIArguments> = {
     write: false,
     runtime: '',
     platform: false,
+    reload: false,
+    https: false,
+    port: '',
 
     // Hooks can selectively override the above defaults. CLI args will still take precedence.
     ...allowHook(Hook.DEFAULT_ARGS, {})()
 };
 
-const version = require(path.resolve(getRootDirectory(), 'package.json')).version;
+// Use the version of the current project, if there is one. The 'init' command can be ran outside of a project.
+const projectPackagePath = path.resolve(getRootDirectory(), 'package.json');
+const version = require(fs.existsSync(projectPackagePath) ? projectPackagePath : path.join(getModuleRoot(), 'package.json')).version;
 
 program.version(version);
 
+/**
+ * Config profile, applies to all commands
+ */
+program.option('-e, --env <profile>', 'Applies the config overrides from the given profile (e.g. "ci" will apply services.ci.json)');
+program.on('option:env', applyConfigProfile);
+
+/**
+ * Recording/replay of remote requests, applies to all commands
+ */
+program.option('--fixtures <mode>', 'Records or replays responses from remote servers, using test/fixtures/http.  Options: passthrough | record | replay');
+program.on('option:fixtures', setHttpFixtureMode);
+
+/**
+ * Launcher selection, applies to all commands that launch applications
+ */
+program.option('--launcher <name>', 'Selects how applications are launched.  Built-in launchers: adapter | fake');
+program.on('option:launcher', setLauncher);
+
+/**
+ * Returns the name of the command being ran, without waiting for commander to parse the args. Hooks must be loaded
+ * before the commands are defined, as they can change the default values of options.
+ */
+function getCommandName(): string | undefined {
+    const args = process.argv.slice(2);
+
+    for (let i = 0; i < args.length; i++) {
+        if (GLOBAL_VALUE_OPTIONS.includes(args[i])) {
+            // Skip the value of the option
+            i++;
+        } else if (!args[i].startsWith('-')) {
+            return args[i];
+        }
+    }
+
+    return undefined;
+}
+
 function asBoolean(value: string, previous: boolean) {
     if (value === '0' || value === 'false' || value === 'off' || value === 'no') {
         return false;
@@ -50,6 +110,14 @@ function asBoolean(value: string, previous: boolean) {
     }
 }
 
+function asPositiveInteger(value: string) {
+    if (/^\d+$/.test(value) && parseInt(value) > 0) {
+        return parseInt(value);
+    } else {
+        throw new Error(`Not a valid value: ${value}, must be a positive integer`);
+    }
+}
+
 /**
  * Start command
  */
@@ -70,6 +138,9 @@ program.command('start')
     .option('-d, --demo [enabled]', 'Determines if the demo app will be launched once the local server is running', asBoolean, defaultStartArgs.demo)
     .option('-s, --static [enabled]', 'Launches the server and application using pre-built files', asBoolean, defaultStartArgs.static)
     .option('-w, --write [enabled]', 'Writes the built files to disk', asBoolean, defaultStartArgs.write)
+    .option('-l, --reload [enabled]', 'Reloads windows when their code is re-built, and shows any build errors', asBoolean, defaultStartArgs.reload)
+    .option('--https [enabled]', 'Serves the project over HTTPS, using a generated certificate unless one is set in config', asBoolean, defaultStartArgs.https)
+    .option('--port <port>', 'Overrides the port of the local server.  Use "auto" to pick a free port, starting with the configured port')
     .action(startCommandProcess);
 
 /**
@@ -78,7 +149,58 @@ program.command('start')
 program.command('build')
     .description('Builds the project and writes output to disk, will simultaneously build client, provider and demo app.')
     .action(buildCommandProcess)
-    .option('-m, --mode <mode>', 'Sets the webpack build mode.  Defaults to "production". Options: development | production | none', 'production');
+    .option('-m, --mode <mode>', 'Sets the webpack build mode.  Defaults to "production". Options: development | production | none', 'production')
+    .option('-w, --watch', 'Keeps webpack running, and rebuilds whenever a source file changes')
+    .option('-a, --asar', 'Creates an ASAR of the provider after each successful build');
+
+/**
+ * Init command
+ */
+program.command('init <name>')
+    .description('Creates a new project within a directory of the given name, with everything required to build, run and test the project.')
+    .option('--service', 'Creates a desktop service, with client, provider and demo components (default)')
+    .option('--app', 'Creates a standalone application')
+    .action((name: string, args: {service?: boolean; app?: boolean}) => {
+        if (args.service && args.app) {
+            console.error('Only one of --service and --app can be specified');
+            process.exit(1);
+        }
+
+        const type: ProjectType = args.app ? 'app' : 'service';
+        createProject(name, type);
+    });
+
+/**
+ * Release command
+ */
+program.command('release')
+    .description('Builds the project in production mode, and creates a versioned, CDN-ready copy of all deployable files within dist/release.')
+    .option('-p, --publish <target>', 'Publishes the release to the given target once created.  Built-in targets: local | mirror')
+    .option('-d, --dest <destination>', 'Where to publish the release to.  For the "local" target, this is a directory path')
+    .action(releaseCommandProcess);
+
+/**
+ * Import command
+ */
+program.command('import-release [source]')
+    .description('Copies a release (default: dist/release) into the local CDN mirror, so that it can be ran offline using "--providerVersion".')
+    .option('--no-aliases', 'Leaves the "stable" and "staging" manifests within the mirror unchanged')
+    .action(importCommandProcess);
+
+/**
+ * Manifest command
+ */
+program.command('manifest <path>')
+    .description('Outputs a manifest from the res directory as it would be served by the local server, and explains each change made to it.')
+    .option(
+        '-v, --providerVersion <version>',
+        'Sets the version of the provider to use.  Options: local | staging | stable | x.y.z',
+        defaultStartArgs.providerVersion
+    )
+    .option('-a, --asar', 'Applies the changes made when starting the provider from an ASAR')
+    .option('-r, --runtime <version>', 'Overrides the runtime version of the manifest.  Options: stable | alpha | beta | canary | w.x.y.z')
+    .option('-p, --platform', 'Converts the manifest into a platform manifest')
+    .action(manifestCommandProcess);
 
 /**
  * Create Runtime channels
@@ -101,6 +223,15 @@ program.command('asar')
     .description('Creates an asar file that contains the provider source code and resources, and client api js file.')
     .action(createAsar);
 
+/**
+ * Manifest linting
+ */
+program.command('lint-manifests')
+    .description('Checks every application manifest within the "res" directory for common problems. Outputs a JSON report.')
+    .action(() => {
+        process.exit(lintManifests() ? 0 : 1);
+    });
+
 /**
  * ESLint Check
  */
@@ -146,8 +277,37 @@ Note: The --asar, --static and --runtime arguments apply only to integration tes
     .option('-f, --filter <filter>', 'Only runs tests whose names match the given pattern.')
     .option('-x, --extraArgs <extraArgs...>', 'Any extra arguments to pass on to jest')
     .option('-c, --noColor', 'Disables the color for the jest terminal output text', true)
+    .option('-v, --providerVersion <version>', 'Sets the version of the provider to use.  Options: local | testing | staging | stable | w.x.y.z', 'testing')
+    .option('--matrix [file]', 'Runs integration tests against every combination of the values within a test matrix.  Defaults to test/matrix.json')
+    .option('--shards <count>', 'Splits integration tests between this many test apps, each in its own runtime, and runs them in parallel', asPositiveInteger)
+    .option('--retries <count>', 'Retries each failed integration test up to this many times, and reports tests that passed only on retry', asPositiveInteger)
+    .option('--https [enabled]', 'Serves the project over HTTPS, using a generated certificate unless one is set in config', asBoolean, false)
+    .option('--port <port>', 'Overrides the port of the local server.  Use "auto" to pick a free port, starting with the configured port')
     .action(startTestRunner);
 
+/**
+ * Config command
+ */
+program.command('config')
+    .description('Displays the project config, after applying any overrides from the active profile, user config and environment variables.')
+    .option('-p, --print', 'Prints the final config, along with the file (or environment variable) each value came from')
+    .action((args: {print?: boolean; help: () => void}) => {
+        if (args.print) {
+            printProjectConfig();
+        } else {
+            args.help();
+        }
+    });
+
+/**
+ * Doctor command
+ */
+program.command('doctor')
+    .description('Checks the local environment and project layout for common problems.')
+    .action(() => {
+        process.exit(runDoctor() ? 0 : 1);
+    });
+
 /**
  * Executes plugins
  */
@@ -161,10 +321,24 @@ program.command('plugins [action]')
 program.parse(process.argv);
 
 // If program was called with no arguments, show help
-if (program.args.length === 0) {
+if (process.argv.length <= 2) {
     program.help();
 }
 
+/**
+ * Selects the config profile given by `--env`. The config is loaded immediately, so that a missing or invalid profile is
+ * reported before the command runs.
+ */
+function applyConfigProfile(profile: string): void {
+    try {
+        setConfigProfile(profile);
+        getProjectConfig();
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+    }
+}
+
 function startPluginExecutor(action?: string): Promise<void> {
     return executeAllPlugins(action);
 }
@@ -203,14 +377,38 @@ async function startTestRunner(type: JestMode, args: CLITestArguments): Promise<
         static: false,
         write: true,
         platform: false,
+        reload: false,
+        https: false,
+        port: '',
         filter: '',
         fileNames: '',
         runtime: '',
         noColor: false,
+        shards: 1,
+        matrix: false,
+        retries: 0,
         extraArgs: ''
     }, args);
     const jestArgs: string[] = [];
 
+    // Each combination within the matrix is run as a separate test command
+    if (parsedArgs.matrix) {
+        if (type !== 'int') {
+            console.error('"--matrix" can only be used with integration tests');
+            process.exit(1);
+        }
+
+        await runTestMatrix(parsedArgs.matrix === true ? DEFAULT_MATRIX_PATH : parsedArgs.matrix);
+        return;
+    }
+
+    if (parsedArgs.https) {
+        overrideProjectConfig({HTTPS: true});
+    }
+    if (parsedArgs.port) {
+        overrideProjectConfig({PORT: await selectPort(parsedArgs.port)});
+    }
+
     // Pushes in the colors argument if requested
     if (!parsedArgs.noColor) {
         jestArgs.push('--colors');
@@ -248,6 +446,13 @@ async function startTestRunner(type: JestMode, args: CLITestArguments): Promise<
 async function startCommandProcess(args: CLIArguments): Promise<void> {
     const parsedArgs = applyCLIArgs<CLIArguments>(defaultStartArgs, args);
 
+    if (parsedArgs.https) {
+        overrideProjectConfig({HTTPS: true});
+    }
+    if (parsedArgs.port) {
+        overrideProjectConfig({PORT: await selectPort(parsedArgs.port)});
+    }
+
     if (args.asar && !(args.static || args.write)) {
         console.log('Enabling --write, to speed-up ASAR creation');
         parsedArgs.write = true;
@@ -265,12 +470,93 @@ async function startCommandProcess(args: CLIArguments): Promise<void> {
  * Initiates a webpack build for the extending project
  */
 async function buildCommandProcess(args: BuildCommandArgs): Promise<void> {
+    const {RUNTIME_INJECTABLE} = getProjectConfig();
     const parsedArgs = applyCLIArgs<BuildCommandArgs>({
-        mode: 'production'
+        mode: 'production',
+        watch: false,
+        asar: false
     }, args);
 
-    await executeWebpack(parsedArgs.mode, true);
-    process.exit(0);
+    if (parsedArgs.asar && !RUNTIME_INJECTABLE) {
+        console.error('"--asar" can only be used if the RUNTIME_INJECTABLE config option is set within services.config.json');
+        process.exit(1);
+    }
+
+    if (parsedArgs.watch) {
+        // Queue-up ASAR creation, so that a rebuild can't start writing an ASAR while the previous one is in progress
+        let asarQueue: Promise<void> = Promise.resolve();
+
+        watchWebpack(parsedArgs.mode, () => {
+            if (parsedArgs.asar) {
+                asarQueue = asarQueue.then(createAsar).catch(console.error);
+            }
+        });
+    } else {
+        await executeWebpack(parsedArgs.mode, true);
+
+        if (getBuildStatus().state === 'failed') {
+            process.exit(1);
+        }
+        if (parsedArgs.asar) {
+            await createAsar();
+        }
+        process.exit(0);
+    }
+}
+
+/**
+ * Creates (and optionally publishes) a release of the extending project
+ */
+async function releaseCommandProcess(args: ReleaseCommandArgs): Promise<void> {
+    const parsedArgs = applyCLIArgs<ReleaseCommandArgs>({
+        publish: '',
+        dest: ''
+    }, args);
+
+    try {
+        await createRelease(parsedArgs);
+        process.exit(0);
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+    }
+}
+
+/**
+ * Imports a release of the extending project into its CDN mirror
+ */
+async function importCommandProcess(source: string | undefined, args: ImportCommandArgs): Promise<void> {
+    const parsedArgs = applyCLIArgs<ImportCommandArgs>({
+        aliases: true
+    }, args);
+
+    try {
+        await importRelease(source || 'dist/release', parsedArgs);
+        process.exit(0);
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+    }
+}
+
+/**
+ * Outputs a manifest as served by the local server, along with the transformations applied to it
+ */
+async function manifestCommandProcess(configPath: string, args: ManifestCommandArgs): Promise<void> {
+    const parsedArgs = applyCLIArgs<ManifestCommandArgs>({
+        providerVersion: defaultStartArgs.providerVersion,
+        asar: false,
+        runtime: '',
+        platform: false
+    }, args);
+
+    try {
+        await explainManifest(configPath, parsedArgs);
+        process.exit(0);
+    } catch (e) {
+        console.error(e.message);
+        process.exit(1);
+    }
 }
 
 /**
@@ -283,6 +569,23 @@ function runEsLintCommand(fix: boolean, cache: boolean): void {
     childprocess.execSync(cmd, {stdio: 'inherit'});
 }
 
+/**
+ * Outputs the merged project config, and the source of each value
+ */
+function printProjectConfig(): void {
+    const config: {[key: string]: unknown} = getProjectConfig();
+    const sources = getProjectConfigSources();
+    const keys = Object.keys(config);
+    const values = keys.map((key) => JSON.stringify(config[key]));
+    const keyWidth = Math.max(...keys.map((key) => key.length));
+    const valueWidth = Math.max(...values.map((value) => value.length));
+
+    console.log(`Config profile: ${getConfigProfile() || '(none)'}\n`);
+    keys.forEach((key, index) => {
+        console.log(`  ${key.padEnd(keyWidth)}  ${values[index].padEnd(valueWidth)}  ${sources[key]}`);
+    });
+}
+
 /**
  * Generates typedoc
  */
@@ -1 +1,12 @@
 export const WSS_DEFAULT_PORT = 50505;
+
+/**
+ * Base path for any routes on the local server that are provided by the tooling itself, rather than the project.
+ */
+export const TOOLING_ROUTE = '/__svc-tools';
+
+/**
+ * Path on the local server that returns the port of the socket server, as `{"port": number}`. The socket server won't
+ * always be on `WSS_DEFAULT_PORT`, as another instance of the local server may already be using that port.
+ */
+export const SOCKET_PORT_PATH = `${TOOLING_ROUTE}/socket.json`;
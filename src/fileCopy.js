@@ -15,5 +15,6 @@ const glob = require('glob');
 
 // List of directories to copy into the dist directory on build
 [
-    'src/typedoc-template'
+    'src/typedoc-template',
+    'src/templates'
 ].forEach(file => fs.copySync(file, path.resolve('dist', path.relative('./src', file))));
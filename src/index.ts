@@ -1,5 +1,8 @@
+import {getLauncher, setLauncher} from './launcher';
+import {FakeLauncher} from './launcher/fake';
 import {createAppJsonMiddleware, createCustomManifestMiddleware} from './server/middleware';
 import * as webpackTools from './webpack/webpackTools';
 
 export const middleware = {createCustomManifestMiddleware, createAppJsonMiddleware};
+export const launchers = {getLauncher, setLauncher, FakeLauncher};
 export {webpackTools};
@@ -0,0 +1,42 @@
+import {connect, launch} from 'hadouken-js-adapter';
+
+import {Launcher} from '../types';
+import {closeConnection} from '../utils/connection';
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {killProcessesOnPort, trackResource} from '../utils/shutdown';
+
+/**
+ * Launches applications on the real OpenFin runtime, using the JS adapter.
+ */
+export const adapterLauncher: Launcher = {
+    launch: (manifestUrl: string) => launch({manifestUrl}),
+
+    launchAndWait: async (manifestUrl: string, uuid: string) => {
+        const {NAME} = getProjectConfig();
+        const fin = await connect({uuid: `wrapper-${NAME}`, manifestUrl});
+        const app = fin.Application.wrapSync({uuid});
+
+        trackResource(`Runtime connection for ${uuid}`, 'runtime', () => closeConnection(fin));
+        await new Promise((resolve, reject) => {
+            app.addListener('closed', resolve).catch(reject);
+        });
+    },
+
+    installRuntime: async (version: string) => {
+        // Use the JS adapter to start an application on this runtime, then immediately exit
+        const connection = await connect({
+            uuid: 'temp-app',
+            runtime: {version}
+        });
+        const untrack = trackResource(`Runtime connection for ${version}`, 'runtime', () => closeConnection(connection));
+        const runtimeVersion = await connection.System.getVersion();
+        await closeConnection(connection);
+        untrack();
+
+        return runtimeVersion;
+    },
+
+    shutdown: async (port: number) => {
+        await killProcessesOnPort(port);
+    }
+};
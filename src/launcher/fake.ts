@@ -0,0 +1,155 @@
+import {EventEmitter} from 'events';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {Launcher} from '../types';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {fetchWithFixtures} from '../utils/httpFixtures';
+import {getManifest} from '../utils/manifest';
+
+/**
+ * Port that is reported for every application started by the fake runtime. There is no runtime listening on this port.
+ */
+export const FAKE_RUNTIME_PORT = 9696;
+
+/**
+ * Location of the log of launched applications, relative to the project root. The log is re-created by each process.
+ */
+const LAUNCH_LOG_PATH = 'dist/fake-runtime.json';
+
+/**
+ * A record of an application that would have been launched.
+ */
+export interface FakeLaunch {
+    manifestUrl: string;
+    uuid: string;
+    runtime: string;
+
+    /**
+     * Any services declared by the manifest, which would have been started alongside the application.
+     */
+    services: {name: string; manifestUrl: string; uuid: string}[];
+
+    /**
+     * Time of the launch, as an ISO date string.
+     */
+    launched: string;
+}
+
+export interface FakeLauncherOptions {
+    /**
+     * If set, each application (and its services) will be closed this many milliseconds after being launched. Otherwise,
+     * applications stay open until {@link FakeLauncher.closeApplication} is called.
+     */
+    closeAfter?: number;
+}
+
+/**
+ * Launcher that doesn't start a runtime. Allows the start and test commands to run on machines that can't run OpenFin,
+ * such as Linux CI agents.
+ *
+ * Each manifest is fetched and checked in the same way that the runtime would, and any problems cause the launch to
+ * fail. Each launch is recorded (see {@link getLaunches}), and written to `dist/fake-runtime.json` for inspection by
+ * other processes. Application `closed` events can be simulated using {@link closeApplication}, or the `closeAfter`
+ * option.
+ *
+ * The fake runtime can't install runtimes, and so can't be used with `--asar`.
+ */
+export class FakeLauncher implements Launcher {
+    private readonly options: FakeLauncherOptions;
+    private readonly launches: FakeLaunch[] = [];
+    private readonly running: Set<string> = new Set();
+    private readonly events: EventEmitter = new EventEmitter();
+
+    constructor(options: FakeLauncherOptions = {}) {
+        this.options = options;
+    }
+
+    public async launch(manifestUrl: string): Promise<number> {
+        const record = await this.checkManifest(manifestUrl);
+        const uuids = [record.uuid, ...record.services.map((service) => service.uuid)];
+
+        console.log(`Fake runtime: Launched ${record.uuid} on runtime ${record.runtime}`);
+        this.launches.push(record);
+        uuids.forEach((uuid) => this.running.add(uuid));
+        await fs.outputJson(path.resolve(getRootDirectory(), LAUNCH_LOG_PATH), this.launches, {spaces: 4});
+
+        if (this.options.closeAfter !== undefined) {
+            setTimeout(() => uuids.forEach((uuid) => this.closeApplication(uuid)), this.options.closeAfter);
+        }
+
+        return FAKE_RUNTIME_PORT;
+    }
+
+    public async launchAndWait(manifestUrl: string, uuid: string): Promise<void> {
+        const closed = new Promise<void>((resolve) => this.events.once(uuid, resolve));
+
+        await this.launch(manifestUrl);
+        if (!this.running.has(uuid)) {
+            throw new Error(`Application ${uuid} wasn't started by ${manifestUrl}`);
+        }
+
+        return closed;
+    }
+
+    public async installRuntime(version: string): Promise<string> {
+        if (!/^\d+\.\d+\.\d+\.\d+$/.test(version)) {
+            throw new Error(`The fake runtime can't resolve release channel "${version}". Use a version number, or don't use "--asar".`);
+        }
+
+        return version;
+    }
+
+    public async shutdown(): Promise<void> {
+        Array.from(this.running).forEach((uuid) => this.closeApplication(uuid));
+    }
+
+    /**
+     * Returns every application launched by this launcher, in the order they were launched.
+     */
+    public getLaunches(): ReadonlyArray<FakeLaunch> {
+        return this.launches;
+    }
+
+    /**
+     * Simulates an application closing. Has no effect if the application isn't running.
+     *
+     * @param uuid UUID of the application to close
+     */
+    public closeApplication(uuid: string): void {
+        if (this.running.delete(uuid)) {
+            console.log(`Fake runtime: Closed ${uuid}`);
+            this.events.emit(uuid);
+        }
+    }
+
+    private async checkManifest(manifestUrl: string): Promise<FakeLaunch> {
+        const manifest = await getManifest(manifestUrl);
+        const app = manifest.platform || manifest.startup_app;
+
+        if (!app || !app.uuid) {
+            throw new Error(`${manifestUrl} doesn't define an application with a UUID`);
+        } else if (!manifest.runtime || !manifest.runtime.version) {
+            throw new Error(`${manifestUrl} doesn't specify a runtime version`);
+        } else if (manifest.startup_app && manifest.startup_app.url) {
+            const response = await fetchWithFixtures(manifest.startup_app.url);
+
+            if (!response.ok) {
+                throw new Error(`Application URL ${manifest.startup_app.url} returned status ${response.status}`);
+            }
+        }
+
+        const services: FakeLaunch['services'] = [];
+        for (const service of manifest.services || []) {
+            if (!service.manifestUrl) {
+                throw new Error(`Service ${service.name} within ${manifestUrl} has no manifestUrl. The fake runtime can't look-up services.`);
+            }
+
+            const providerManifest = await getManifest(service.manifestUrl);
+            services.push({name: service.name, manifestUrl: service.manifestUrl, uuid: providerManifest.startup_app.uuid});
+        }
+
+        return {manifestUrl, uuid: app.uuid, runtime: manifest.runtime.version, services, launched: new Date().toISOString()};
+    }
+}
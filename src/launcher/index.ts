@@ -0,0 +1,61 @@
+import {Launcher} from '../types';
+import {allowHook, Hook} from '../utils/allowHook';
+
+import {adapterLauncher} from './adapter';
+import {FakeLauncher} from './fake';
+
+/**
+ * Name of the environment variable that holds the name of the active launcher. Stored within the environment so that it
+ * is inherited by any child processes, such as jest runs.
+ */
+const LAUNCHER_ENV_VAR = 'LAUNCHER';
+
+/**
+ * Name of the environment variable that sets the `closeAfter` option of the built-in "fake" launcher, in milliseconds.
+ */
+const FAKE_RUNTIME_CLOSE_AFTER_ENV_VAR = 'FAKE_RUNTIME_CLOSE_AFTER';
+
+let activeLauncher: Launcher | null = null;
+
+/**
+ * Returns the launcher that should be used to start applications. This is the "adapter" launcher, unless another
+ * launcher was selected using {@link setLauncher}.
+ */
+export function getLauncher(): Launcher {
+    if (!activeLauncher) {
+        const name = process.env[LAUNCHER_ENV_VAR] || 'adapter';
+        const launchers = getAvailableLaunchers();
+
+        if (!launchers.hasOwnProperty(name)) {
+            throw new Error(`Unknown launcher "${name}". Available launchers: ${Object.keys(launchers).join(', ')}`);
+        }
+
+        activeLauncher = launchers[name];
+    }
+
+    return activeLauncher;
+}
+
+/**
+ * Selects the launcher to use for the remainder of this process.
+ *
+ * @param launcher Either the name of a launcher (which will also apply to any child processes), or a launcher instance
+ */
+export function setLauncher(launcher: string | Launcher): void {
+    if (typeof launcher === 'string') {
+        process.env[LAUNCHER_ENV_VAR] = launcher;
+        activeLauncher = null;
+    } else {
+        activeLauncher = launcher;
+    }
+}
+
+function getAvailableLaunchers(): {[name: string]: Launcher} {
+    const closeAfter = process.env[FAKE_RUNTIME_CLOSE_AFTER_ENV_VAR];
+    const builtInLaunchers: {[name: string]: Launcher} = {
+        adapter: adapterLauncher,
+        fake: new FakeLauncher({closeAfter: closeAfter ? parseInt(closeAfter) : undefined})
+    };
+
+    return {...builtInLaunchers, ...allowHook(Hook.LAUNCHERS, {})()};
+}
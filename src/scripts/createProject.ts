@@ -0,0 +1,79 @@
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+import * as glob from 'glob';
+
+import {getModuleRoot} from '../utils/getModuleRoot';
+
+export type ProjectType = 'service' | 'app';
+
+/**
+ * Suffix used by all template files. Stops the templates from being picked-up by the TypeScript/ESLint configs of this
+ * module, as they are not valid source files until their placeholders have been replaced.
+ */
+const TEMPLATE_EXTENSION = '.tpl';
+
+/**
+ * Files that can't be published within an NPM package under their real names.
+ */
+const RENAMED_FILES: {[template: string]: string} = {
+    'gitignore': '.gitignore'
+};
+
+/**
+ * Creates a new project from the templates bundled with this module.
+ *
+ * Projects are created within a new directory (named after the project) within the current working directory.
+ *
+ * @param name The NAME of the project, see `ConfigFile.NAME`
+ * @param type If the project is a desktop service (with client, provider and demo components), or a standalone application
+ */
+export function createProject(name: string, type: ProjectType): void {
+    if (!/^[a-z0-9-]+$/.test(name)) {
+        throw new Error(`Invalid project name "${name}". Names must be all lower-case, and contain only letters, numbers and dashes.`);
+    }
+
+    const outputDir = path.resolve(name);
+    if (fs.existsSync(outputDir) && fs.readdirSync(outputDir).length > 0) {
+        throw new Error(`Can't create project, ${outputDir} already exists and is not empty`);
+    }
+
+    const params: {[key: string]: string} = {
+        NAME: name,
+        TITLE: name.split('-').map((word) => word.charAt(0).toUpperCase() + word.substr(1)).join(' '),
+        LIBRARY_NAME: name.replace(/-([a-z0-9])/g, (match, char: string) => char.toUpperCase()),
+        PORT: getDefaultPort(name).toString(),
+        // Versioned CDN layout, as expected by `getProviderUrl` and the `release` command
+        CDN_LOCATION: `https://cdn.openfin.co/${type === 'service' ? 'services' : 'apps'}/openfin/${name}/\${VERSION}`,
+        TOOLING_VERSION: require(path.join(getModuleRoot(), 'package.json')).version
+    };
+
+    ['common', type].forEach((templateSet) => {
+        const templateDir = path.join(getModuleRoot(), 'templates', templateSet);
+        const templates: string[] = glob.sync(`**/*${TEMPLATE_EXTENSION}`, {cwd: templateDir, dot: true, nodir: true});
+
+        templates.forEach((template) => {
+            const content = fs.readFileSync(path.join(templateDir, template), 'utf8')
+                .replace(/{{([A-Z_]+)}}/g, (match, param: string) => params.hasOwnProperty(param) ? params[param] : match);
+            const filename = path.basename(template, TEMPLATE_EXTENSION);
+            const outputPath = path.join(outputDir, path.dirname(template), RENAMED_FILES[filename] || filename);
+
+            fs.outputFileSync(outputPath, content);
+        });
+    });
+
+    console.log(`Created ${type} "${name}" in ${outputDir}\n`);
+    console.log('To get started, run:');
+    console.log(`    cd ${name}`);
+    console.log('    npm install');
+    console.log('    npm start');
+}
+
+/**
+ * Picks a port for the local development server. Port is derived from the project name, to reduce the likelihood of
+ * two projects using the same port.
+ */
+function getDefaultPort(name: string): number {
+    const hash = name.split('').reduce((accum, char) => ((accum * 31) + char.charCodeAt(0)) % 10000, 0);
+    return 40000 + hash;
+}
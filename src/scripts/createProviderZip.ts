@@ -9,14 +9,18 @@ import {getRootDirectory} from '../utils/getRootDirectory';
 /**
  * Creates a zip archive of the service provider.
  */
-export function createProviderZip() {
+export function createProviderZip(): Promise<void> {
     const {NAME} = getProjectConfig();
     const output = createWriteStream(resolve(getRootDirectory(), 'dist', 'provider', `${NAME}-service.zip`));
     const archive = archiver('zip', {zlib: {level: 9}});
 
-    output.on('close', () => {
-        console.log(`Zip file created at '${output.path}'`);
-        console.log(`${archive.pointer()} total bytes written`);
+    const result = new Promise<void>((resolvePromise, reject) => {
+        output.on('close', () => {
+            console.log(`Zip file created at '${output.path}'`);
+            console.log(`${archive.pointer()} total bytes written`);
+            resolvePromise();
+        });
+        archive.on('error', reject);
     });
 
     archive.pipe(output);
@@ -27,4 +31,5 @@ export function createProviderZip() {
     archive.glob('**/*.!(zip)', {cwd: resolve(getRootDirectory(), 'dist', 'provider')});
 
     archive.finalize();
+    return result;
 }
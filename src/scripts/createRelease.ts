@@ -0,0 +1,146 @@
+import {createHash} from 'crypto';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+import * as glob from 'glob';
+
+import {PublishTarget, Release, ReleaseCommandArgs, ReleaseFile} from '../types';
+import {allowHook, Hook} from '../utils/allowHook';
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {getBuildStatus} from '../webpack/buildStatus';
+import {executeWebpack} from '../webpack/executeWebpack';
+
+import {createAsar} from './createAsar';
+import {createProviderZip} from './createProviderZip';
+import {createRuntimeChannels} from './createRuntimeChannels';
+import {importRelease} from './importRelease';
+
+/**
+ * Aliases of the provider manifest that are placed at the root of the release, alongside the versioned directory. These
+ * are the URLs used by `getProviderUrl` for the "stable" and "staging" provider versions.
+ */
+const MANIFEST_ALIASES = ['app.json', 'app.staging.json'];
+
+/**
+ * Name of the file (within the release directory) that lists every file in the release, along with its hash.
+ */
+const FILE_LIST_NAME = 'files.json';
+
+/**
+ * Publish targets that are always available. Projects can add to these using the `PUBLISH_TARGETS` hook.
+ */
+const builtInTargets: {[name: string]: PublishTarget} = {
+    /**
+     * Copies the release into a local directory. Existing files in the destination are overwritten, but not removed.
+     */
+    local: {
+        publish: async (release: Release, destination: string) => {
+            if (!destination) {
+                throw new Error('The "local" publish target requires a destination directory (--dest <dir>)');
+            }
+
+            await fs.copy(release.directory, path.resolve(destination));
+            console.log(`Copied ${release.files.length} files to ${path.resolve(destination)}`);
+        }
+    },
+
+    /**
+     * Imports the release into the project's local CDN mirror, see `ConfigFile.CDN_MIRROR`.
+     */
+    mirror: {
+        publish: async (release: Release) => {
+            await importRelease(release.directory, {aliases: true});
+        }
+    }
+};
+
+/**
+ * Builds the project in production mode and gathers all deployable files into `dist/release`. The release directory
+ * mirrors the layout of the CDN:
+ *
+ * - `<VERSION>/`: All files required to run this version of the project
+ * - `app.json`, `app.staging.json`: Copies of the versioned manifest, for the "stable" and "staging" channels
+ * - `files.json`: A list of all files within the release, along with their SHA-256 hashes
+ *
+ * The release can then optionally be published to any available target.
+ *
+ * @param args Command-line arguments for the release command
+ */
+export async function createRelease(args: ReleaseCommandArgs): Promise<Release> {
+    const {NAME, VERSION, IS_SERVICE, RUNTIME_INJECTABLE} = getProjectConfig();
+    const rootDir = getRootDirectory();
+    const releaseDir = path.resolve(rootDir, 'dist/release');
+    const versionDir = path.join(releaseDir, VERSION);
+    const targets = {...builtInTargets, ...allowHook(Hook.PUBLISH_TARGETS, {})()};
+
+    // Check target before doing anything, to avoid finding out about a typo only after a lengthy build
+    if (args.publish && !targets.hasOwnProperty(args.publish)) {
+        throw new Error(`Unknown publish target "${args.publish}". Available targets: ${Object.keys(targets).join(', ')}`);
+    }
+
+    fs.removeSync(releaseDir);
+
+    console.log(`Building ${NAME} ${VERSION} (production mode)...`);
+    const middleware = await executeWebpack('production', true);
+    await new Promise((resolve) => middleware.close(resolve));
+
+    if (getBuildStatus().state === 'failed') {
+        throw new Error('Release not created, as the build failed. See output above.');
+    }
+
+    if (IS_SERVICE) {
+        createRuntimeChannels();
+        await createProviderZip();
+
+        if (RUNTIME_INJECTABLE) {
+            await createAsar();
+        }
+
+        // Provider is deployed to the root of the CDN location, alongside the client and ASAR
+        copyFiles(path.resolve(rootDir, 'res/provider'), versionDir);
+        copyFiles(path.resolve(rootDir, 'dist/provider'), versionDir);
+        copyFiles(path.resolve(rootDir, 'dist/client'), versionDir);
+        if (RUNTIME_INJECTABLE) {
+            fs.copySync(path.resolve(rootDir, 'dist/asar', `${NAME}.asar`), path.join(versionDir, `${NAME}.asar`));
+        }
+    } else {
+        copyFiles(path.resolve(rootDir, 'res'), versionDir, ['test/**']);
+        // Excludes the lockfile of any running local servers, see `ports.ts`
+        copyFiles(path.resolve(rootDir, 'dist'), versionDir, ['release/**', 'test/**', 'docs/**', 'asar/**', 'ports.lock*']);
+    }
+
+    MANIFEST_ALIASES.forEach((alias) => {
+        fs.copySync(path.join(versionDir, 'app.json'), path.join(releaseDir, alias));
+    });
+
+    const release: Release = {name: NAME, version: VERSION, directory: releaseDir, files: hashFiles(releaseDir)};
+    fs.writeFileSync(path.join(releaseDir, FILE_LIST_NAME), JSON.stringify(release.files, null, 4));
+    console.log(`Release ${VERSION} created at '${releaseDir}' (${release.files.length} files)`);
+
+    if (args.publish) {
+        console.log(`Publishing to "${args.publish}"...`);
+        await targets[args.publish].publish(release, args.dest);
+    }
+
+    return release;
+}
+
+function copyFiles(srcDir: string, destDir: string, ignore: string[] = []): void {
+    const files: string[] = glob.sync('**/*', {cwd: srcDir, dot: true, nodir: true, ignore});
+
+    files.forEach((file) => {
+        fs.copySync(path.join(srcDir, file), path.join(destDir, file));
+    });
+}
+
+function hashFiles(directory: string): ReleaseFile[] {
+    const files: string[] = glob.sync('**/*', {cwd: directory, dot: true, nodir: true});
+
+    return files.sort().map((file) => {
+        const content = fs.readFileSync(path.join(directory, file));
+        const sha256 = createHash('sha256').update(content).digest('hex');
+
+        return {path: file, size: content.length, sha256};
+    });
+}
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as execa from 'execa';
+
+import {getConfigProfile, getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {getProviderPath} from '../utils/manifest';
+import {getInstallDirectory} from '../utils/runtime';
+
+type CheckStatus = 'pass' | 'warn' | 'fail';
+
+interface CheckResult {
+    status: CheckStatus;
+
+    /**
+     * Short description of what was found.
+     */
+    message: string;
+
+    /**
+     * How to resolve the issue. Not required for passing checks.
+     */
+    hint?: string;
+}
+
+interface Check {
+    name: string;
+
+    /**
+     * Performs the check. Any error thrown by this function is reported as a failure.
+     */
+    run: () => CheckResult;
+}
+
+const checks: Check[] = [
+    {
+        name: 'Project config',
+        run: () => {
+            const {NAME, IS_SERVICE} = getProjectConfig();
+            const profile = getConfigProfile();
+
+            return pass(`Loaded ${IS_SERVICE ? 'service' : 'application'} "${NAME}"${profile ? ` using profile "${profile}"` : ''}`);
+        }
+    },
+    {
+        name: 'Provider manifest',
+        run: () => {
+            const providerPath = getProviderPath();
+
+            if (fs.existsSync(providerPath)) {
+                return pass(`Found ${relative(providerPath)}`);
+            } else {
+                return fail(`${relative(providerPath)} not found`, 'Every project requires a manifest. Copy one from the demo project within service-tooling.');
+            }
+        }
+    },
+    {
+        name: 'Webpack config',
+        run: () => {
+            const webpackPath = path.resolve(getRootDirectory(), 'webpack.config.js');
+
+            if (fs.existsSync(webpackPath)) {
+                return pass('Found webpack.config.js');
+            } else {
+                return fail(
+                    'webpack.config.js not found',
+                    'Add a webpack.config.js to the project root, using "webpackTools.createConfig" to create a config for each component.'
+                );
+            }
+        }
+    },
+    {
+        name: 'Test app manifest',
+        run: () => {
+            const testAppPath = path.resolve(getRootDirectory(), 'res/test/test-app-main.json');
+
+            if (fs.existsSync(testAppPath)) {
+                return pass('Found res/test/test-app-main.json');
+            } else {
+                return warn('res/test/test-app-main.json not found', 'Integration tests ("svc-tools test int") launch this manifest before running jest.');
+            }
+        }
+    },
+    {
+        name: 'Hooks',
+        run: () => {
+            const hooksPath = path.resolve(getRootDirectory(), 'hooks.ts');
+            const tscPath = path.resolve(getRootDirectory(), 'node_modules/.bin/tsc');
+
+            if (!fs.existsSync(hooksPath)) {
+                return pass('No hooks.ts in project');
+            } else if (!fs.existsSync(tscPath)) {
+                return fail('hooks.ts exists, but TypeScript is not installed', 'Add "typescript" to the devDependencies of the project.');
+            }
+
+            // Compiled with the same options as `loadHooks`, but without writing any output
+            const result = execa.sync(tscPath, [hooksPath, '--noEmit', '--moduleResolution', 'node', '--target', 'es5'], {reject: false});
+            if (result.code === 0) {
+                return pass('hooks.ts compiles without errors');
+            } else {
+                return fail(
+                    `hooks.ts does not compile:\n${(result.stdout || result.stderr).trim()}`,
+                    'Correct the errors listed above. Every other svc-tools command compiles hooks.ts on start-up, and exits if it fails to compile.'
+                );
+            }
+        }
+    },
+    {
+        name: 'Runtime injection',
+        run: () => {
+            const {NAME, RUNTIME_INJECTABLE} = getProjectConfig();
+            const clientPath = path.resolve(getRootDirectory(), 'dist/client', `openfin-${NAME}.js`);
+
+            if (!RUNTIME_INJECTABLE) {
+                return pass('RUNTIME_INJECTABLE not set, ASAR will not be used');
+            } else if (!fs.existsSync(clientPath)) {
+                return warn(
+                    `RUNTIME_INJECTABLE is set, but the client bundle (${relative(clientPath)}) has not been built`,
+                    'Run "svc-tools build" before creating an ASAR, or use the "--asar" option on "start"/"test" which builds automatically.'
+                );
+            } else {
+                return pass(`Found client bundle for ASAR at ${relative(clientPath)}`);
+            }
+        }
+    },
+    {
+        name: 'Runtime install directory',
+        run: () => {
+            let runtimeDirectory: string;
+
+            try {
+                // Mac and Linux install directories are given relative to the home directory
+                runtimeDirectory = getInstallDirectory('').replace(/^~(?=$|[\\/])/, os.homedir());
+            } catch (e) {
+                return fail(
+                    `Unable to determine runtime install directory (${e.message})`,
+                    'On Windows, check that the LOCALAPPDATA environment variable is set.'
+                );
+            }
+
+            if (fs.existsSync(runtimeDirectory)) {
+                return pass(`Runtimes are installed to ${runtimeDirectory}`);
+            } else {
+                return warn(
+                    `${runtimeDirectory} does not exist`,
+                    'No runtimes have been installed yet. Runtimes are downloaded on first launch, but "--asar" requires a local runtime to copy.'
+                );
+            }
+        }
+    }
+];
+
+/**
+ * Checks the local environment and project layout for common problems, and outputs a report of the results.
+ *
+ * Returns true if all checks passed (or produced warnings), and false if any check failed.
+ */
+export function runDoctor(): boolean {
+    const nameWidth = Math.max(...checks.map((check) => check.name.length));
+    let passed = true;
+
+    checks.forEach((check) => {
+        let result: CheckResult;
+
+        try {
+            result = check.run();
+        } catch (e) {
+            result = fail(e.message);
+        }
+
+        const label = result.status === 'pass' ? '[pass]' : `[${result.status.toUpperCase()}]`;
+        console.log(`${label} ${check.name.padEnd(nameWidth)}  ${result.message}`);
+        if (result.hint) {
+            console.log(`       ${''.padEnd(nameWidth)}  Fix: ${result.hint}`);
+        }
+
+        passed = passed && result.status !== 'fail';
+    });
+
+    console.log(passed ? '\nNo problems found' : '\nOne or more checks failed, see above');
+    return passed;
+}
+
+function relative(filePath: string): string {
+    return path.relative(getRootDirectory(), filePath);
+}
+
+function pass(message: string): CheckResult {
+    return {status: 'pass', message};
+}
+
+function warn(message: string, hint: string): CheckResult {
+    return {status: 'warn', message, hint};
+}
+
+function fail(message: string, hint?: string): CheckResult {
+    return {status: 'fail', message, hint};
+}
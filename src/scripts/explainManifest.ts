@@ -0,0 +1,34 @@
+import {getServedManifest} from '../server/middleware';
+import {ManifestCommandArgs} from '../types';
+import {ManifestTransform} from '../utils/getManifest';
+
+/**
+ * Outputs a manifest exactly as it would be served by the local server, followed by a list of each change the tooling
+ * made to the manifest and the reason for it.
+ *
+ * This is the command-line equivalent of requesting the manifest from the local server with `?explain=1`.
+ *
+ * @param configPath Path to the manifest, relative to the 'res' directory
+ * @param args Command-line arguments for the manifest command
+ */
+export async function explainManifest(configPath: string, args: ManifestCommandArgs): Promise<void> {
+    const transforms: ManifestTransform[] = [];
+    const manifest = await getServedManifest(configPath.replace(/^\/?res\//, ''), args, transforms);
+
+    console.log(JSON.stringify(manifest, null, 4));
+    console.log();
+
+    if (transforms.length === 0) {
+        console.log('Manifest is served unchanged');
+    } else {
+        console.log(`${transforms.length} transformation(s) applied:`);
+        transforms.forEach(({path, from, to, reason}) => {
+            console.log(`\n  ${path || '(manifest)'}`);
+            console.log(`    ${reason}`);
+            if (from !== undefined || to !== undefined) {
+                console.log(`    - ${from === undefined ? '(not set)' : JSON.stringify(from)}`);
+                console.log(`    + ${to === undefined ? '(removed)' : JSON.stringify(to)}`);
+            }
+        });
+    }
+}
@@ -0,0 +1,57 @@
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {ImportCommandArgs} from '../types';
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+/**
+ * Files within a release that describe only that release, and shouldn't be copied into the mirror.
+ */
+const RELEASE_METADATA = ['files.json'];
+
+/**
+ * Copies a release (as created by the `release` command) into the project's local CDN mirror. See
+ * `ConfigFile.CDN_MIRROR`.
+ *
+ * Each versioned directory within the release is copied into the mirror, replacing any previous import of that
+ * version. Other versions within the mirror are left as-is, so that the mirror can hold several archived builds at once.
+ *
+ * @param source Path to the release directory, relative to the project root
+ * @param args Command-line arguments for the import command
+ */
+export async function importRelease(source: string, args: ImportCommandArgs): Promise<void> {
+    const {CDN_MIRROR} = getProjectConfig();
+    const sourceDir = path.resolve(getRootDirectory(), source);
+
+    if (!CDN_MIRROR) {
+        throw new Error('No CDN mirror to import into. Set CDN_MIRROR within project config (or the user config file) first.');
+    } else if (!fs.existsSync(sourceDir) || !fs.statSync(sourceDir).isDirectory()) {
+        throw new Error(`Release directory ${sourceDir} not found. Use "svc-tools release" to create a release.`);
+    }
+
+    const mirrorDir = path.resolve(getRootDirectory(), CDN_MIRROR);
+    const entries = fs.readdirSync(sourceDir).filter((entry) => !RELEASE_METADATA.includes(entry));
+    const versions = entries.filter((entry) => fs.statSync(path.join(sourceDir, entry)).isDirectory());
+    const aliases = entries.filter((entry) => !versions.includes(entry));
+
+    if (versions.length === 0) {
+        throw new Error(`${sourceDir} doesn't contain any versioned releases`);
+    }
+
+    for (const version of versions) {
+        const versionDir = path.join(mirrorDir, version);
+
+        await fs.remove(versionDir);
+        await fs.copy(path.join(sourceDir, version), versionDir);
+        console.log(`Imported ${version} into ${mirrorDir}`);
+    }
+
+    if (args.aliases && aliases.length > 0) {
+        for (const alias of aliases) {
+            await fs.copy(path.join(sourceDir, alias), path.join(mirrorDir, alias));
+        }
+        console.log(`Updated ${aliases.join(', ')}`);
+    }
+}
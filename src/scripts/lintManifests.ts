@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as glob from 'glob';
+
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {ClassicManifest, PlatformManifest, ServiceDeclaration} from '../utils/manifests';
+import {replaceUrlParams} from '../utils/url';
+
+export type LintRule =
+    'invalid-json' |
+    'missing-uuid' |
+    'missing-runtime-version' |
+    'non-cdn-url' |
+    'invalid-template' |
+    'service-name' |
+    'injection-disabled' |
+    'lint-failed';
+
+export interface LintIssue {
+    /**
+     * Path of the manifest, relative to the project root.
+     */
+    file: string;
+    rule: LintRule;
+    severity: 'error' | 'warning';
+
+    /**
+     * Dot-separated path to the offending value within the manifest.
+     */
+    path: string;
+    message: string;
+}
+
+export interface LintReport {
+    /**
+     * Number of manifests that were checked. JSON files within `res` that aren't manifests are not included.
+     */
+    manifests: number;
+    errors: number;
+    warnings: number;
+    issues: LintIssue[];
+}
+
+type IssueReporter = (rule: LintRule, severity: LintIssue['severity'], valuePath: string, message: string) => void;
+
+/**
+ * Checks every application manifest within the project's `res` directory, and writes a JSON report to stdout.
+ *
+ * Returns true if no errors were found. Warnings do not cause the lint to fail.
+ */
+export function lintManifests(): boolean {
+    const resDir = path.resolve(getRootDirectory(), 'res');
+    const files: string[] = glob.sync('**/*.json', {cwd: resDir});
+    const report: LintReport = {manifests: 0, errors: 0, warnings: 0, issues: []};
+
+    files.forEach((file) => {
+        const relativePath = path.join('res', file);
+        const addIssue: IssueReporter = (rule, severity, valuePath, message) => {
+            report.issues.push({file: relativePath, rule, severity, path: valuePath, message});
+        };
+
+        let manifest: Partial<ClassicManifest & PlatformManifest>;
+        try {
+            manifest = JSON.parse(fs.readFileSync(path.join(resDir, file), 'utf8'));
+        } catch (e) {
+            addIssue('invalid-json', 'error', '', `Unable to parse file: ${e.message}`);
+            return;
+        }
+
+        try {
+            if (manifest && manifest.startup_app) {
+                report.manifests++;
+                lintClassicManifest(manifest as ClassicManifest, addIssue);
+            } else if (manifest && manifest.platform) {
+                report.manifests++;
+                lintPlatformManifest(manifest as PlatformManifest, addIssue);
+            }
+        } catch (e) {
+            // Report any unexpected manifest structure against the file, rather than aborting the whole report
+            addIssue('lint-failed', 'error', '', `Unable to lint file: ${e.message}`);
+        }
+    });
+
+    report.errors = report.issues.filter((issue) => issue.severity === 'error').length;
+    report.warnings = report.issues.length - report.errors;
+
+    console.log(JSON.stringify(report, null, 4));
+    return report.errors === 0;
+}
+
+function lintClassicManifest(manifest: ClassicManifest, addIssue: IssueReporter): void {
+    const {NAME, RUNTIME_INJECTABLE} = getProjectConfig();
+    const startupApp: ClassicManifest['startup_app'] & {[key: string]: unknown} = manifest.startup_app;
+
+    if (!startupApp.uuid) {
+        addIssue('missing-uuid', 'error', 'startup_app.uuid', 'Manifest does not specify an application UUID');
+    }
+    lintRuntime(manifest, addIssue);
+
+    lintUrl(startupApp.url, 'startup_app.url', addIssue);
+    lintUrl(startupApp.icon, 'startup_app.icon', addIssue);
+    lintUrl(manifest.shortcut && manifest.shortcut.icon, 'shortcut.icon', addIssue);
+    lintServices(manifest.services, addIssue);
+
+    if (!RUNTIME_INJECTABLE) {
+        [`${NAME}Api`, `${NAME}Config`].forEach((key) => {
+            if (startupApp.hasOwnProperty(key)) {
+                addIssue('injection-disabled', 'error', `startup_app.${key}`, `"${key}" has no effect, as RUNTIME_INJECTABLE is not enabled in project config`);
+            }
+        });
+    }
+}
+
+function lintPlatformManifest(manifest: PlatformManifest, addIssue: IssueReporter): void {
+    if (!manifest.platform.uuid) {
+        addIssue('missing-uuid', 'error', 'platform.uuid', 'Manifest does not specify a platform UUID');
+    }
+    lintRuntime(manifest, addIssue);
+
+    lintUrl(manifest.platform.applicationIcon, 'platform.applicationIcon', addIssue);
+    lintServices(manifest.services, addIssue);
+
+    const windows = (manifest.snapshot && manifest.snapshot.windows) || [];
+    windows.forEach((window, windowIndex) => {
+        if (!window.layout) {
+            return;
+        }
+
+        const visit = (items: {type: string; content?: unknown[]; componentState?: {url: string}}[], itemPath: string) => {
+            items.forEach((item, index) => {
+                if (item.componentState) {
+                    lintUrl(item.componentState.url, `${itemPath}.${index}.componentState.url`, addIssue);
+                }
+                if (item.content) {
+                    visit(item.content as typeof items, `${itemPath}.${index}.content`);
+                }
+            });
+        };
+
+        visit(window.layout.content, `snapshot.windows.${windowIndex}.layout.content`);
+    });
+}
+
+function lintRuntime(manifest: {runtime?: {version?: string}}, addIssue: IssueReporter): void {
+    if (!manifest.runtime || !manifest.runtime.version) {
+        addIssue('missing-runtime-version', 'error', 'runtime.version', 'Manifest does not specify a runtime version');
+    }
+}
+
+function lintServices(services: ServiceDeclaration[] | undefined, addIssue: IssueReporter): void {
+    const {NAME} = getProjectConfig();
+
+    (services || []).forEach((service, index) => {
+        if (service.name === NAME) {
+            lintUrl(service.manifestUrl, `services.${index}.manifestUrl`, addIssue);
+        } else {
+            addIssue('service-name', 'warning', `services.${index}.name`, `Service "${service.name}" is not the service provided by this project ("${NAME}")`);
+        }
+    });
+}
+
+/**
+ * Checks that a URL will be correctly re-written by the local server. URLs should either reference the CDN location of
+ * the project, or be a template string.
+ */
+function lintUrl(url: string | undefined, valuePath: string, addIssue: IssueReporter): void {
+    const {CDN_LOCATION} = getProjectConfig();
+
+    if (!url) {
+        return;
+    }
+
+    if (url.includes('${')) {
+        try {
+            replaceUrlParams(url);
+        } catch (e) {
+            addIssue('invalid-template', 'error', valuePath, `Template "${url}" could not be evaluated: ${e.message}`);
+        }
+    } else if (!url.startsWith(CDN_LOCATION)) {
+        addIssue('non-cdn-url', 'warning', valuePath, `"${url}" is not within CDN_LOCATION (${CDN_LOCATION}), and will not be re-written by the local server`);
+    }
+}
@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {RequestHandler} from 'express-serve-static-core';
+import * as glob from 'glob';
+
+import {TOOLING_ROUTE} from '../constants';
+import {getLauncher} from '../launcher';
+import {CLIArguments} from '../types';
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {escapeHtml} from '../utils/html';
+import {getProviderUrl} from '../utils/manifest';
+import {getServerOrigin} from '../utils/url';
+import {getBuildStatus} from '../webpack/buildStatus';
+
+import {DIAGNOSTICS_PATH} from './diagnostics';
+import {getServedManifest} from './middleware';
+
+/**
+ * Path of the dashboard page on the local server.
+ */
+export const DASHBOARD_PATH = `${TOOLING_ROUTE}/`;
+
+/**
+ * Path of the endpoint used by the dashboard to launch applications. Accepts POST requests from the dashboard only, and
+ * takes a `manifest` query arg. See {@link createLaunchMiddleware} for the manifests that can be launched.
+ */
+export const LAUNCH_PATH = `${TOOLING_ROUTE}/launch`;
+
+/**
+ * Provider versions that are listed on the dashboard. See {@link getProviderUrl}.
+ */
+const PROVIDER_VERSIONS = ['local', 'testing', 'staging', 'stable'];
+
+/**
+ * Creates express-compatible middleware function that serves an overview of everything being served by the local server.
+ *
+ * The dashboard lists every manifest within the 'res' directory (both as it exists on disk, and as it is served), the
+ * active CLI args, the URL of each provider version and the output of the webpack build. It also contains a form for
+ * launching custom applications, using the manifests generated by `createCustomManifestMiddleware`.
+ *
+ * @param args CLI args of the current command. These will be applied to any manifests shown on the dashboard.
+ */
+export function createDashboardMiddleware(args: CLIArguments): RequestHandler {
+    return async (req, res) => {
+        const {NAME, TITLE, VERSION, IS_SERVICE} = getProjectConfig();
+        const sections = [
+            renderSection('CLI arguments', renderTable(Object.keys(args).map((key) => [key, JSON.stringify(args[key as keyof CLIArguments])]))),
+            IS_SERVICE ? renderSection('Provider versions', renderProviderUrls()) : '',
+            renderSection('Bundles', renderBundles()),
+            renderSection('Manifests', await renderManifests(args)),
+            IS_SERVICE ? renderSection('Launch custom application', renderLauncher(args)) : ''
+        ];
+
+        res.header('Content-Type', 'text/html; charset=utf-8');
+        res.header('Cache-Control', 'no-store');
+        res.send(`<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(TITLE)}</title>
+    <style>
+        body {font-family: sans-serif; margin: 24px; background: #1e1e1e; color: #ddd;}
+        small {color: #999; font-weight: normal;}
+        a {color: #80c0ff;}
+        table {border-collapse: collapse; margin-bottom: 8px;}
+        td, th {padding: 2px 16px 2px 0; text-align: left; vertical-align: top;}
+        pre {background: #111; padding: 8px; overflow: auto; max-height: 400px;}
+        label {display: inline-block; margin: 0 16px 8px 0;}
+        .failed {color: #ff8080;}
+        .success {color: #80ff80;}
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(TITLE)} <small>${escapeHtml(NAME)} ${escapeHtml(VERSION)}</small></h1>
+    <p>Build status: <a class="${getBuildStatus().state}" href="${DIAGNOSTICS_PATH}">${getBuildStatus().state}</a></p>
+    ${sections.join('\n')}
+    <script>
+        function launchManifest(manifest) {
+            fetch('${LAUNCH_PATH}?manifest=' + encodeURIComponent(manifest), {method: 'POST'}).then((response) => response.text()).then(alert, alert);
+        }
+
+        document.querySelectorAll('button[data-manifest]').forEach((button) => {
+            button.addEventListener('click', () => launchManifest(button.dataset.manifest));
+        });
+    </script>
+</body>
+</html>`);
+    };
+}
+
+/**
+ * Creates express-compatible middleware function that launches the manifest given in the `manifest` query arg. Should be
+ * registered as a POST route.
+ *
+ * As this launches applications on the developer's machine, requests are only accepted from pages on the local server,
+ * so that other sites open in the developer's browser can't use it. The manifest must either be a file within the `res`
+ * directory, or a manifest generated by `createCustomManifestMiddleware`.
+ */
+export function createLaunchMiddleware(): RequestHandler {
+    return (req, res) => {
+        const manifest: string = req.query.manifest || '';
+
+        if (req.header('Origin') !== getServerOrigin()) {
+            res.status(403).send('Applications can only be launched from the dashboard');
+            return;
+        } else if (!isLaunchableManifest(manifest)) {
+            res.status(400).send('Manifest must be a file within res, or a custom manifest from /manifest');
+            return;
+        }
+
+        const manifestUrl = `${getServerOrigin()}${manifest}`;
+        console.log(`Launching ${manifestUrl} from dashboard`);
+        getLauncher().launch(manifestUrl).catch(console.error);
+
+        res.send(`Launching ${manifestUrl}`);
+    };
+}
+
+function isLaunchableManifest(manifest: string): boolean {
+    if (!manifest.startsWith('/') || manifest.startsWith('//')) {
+        return false;
+    }
+
+    const {pathname} = new URL(manifest, getServerOrigin());
+    if (pathname === '/manifest') {
+        return true;
+    }
+
+    const resDir = path.resolve(getRootDirectory(), 'res');
+    const filePath = path.resolve(resDir, `.${decodeURIComponent(pathname)}`);
+
+    return filePath.startsWith(resDir + path.sep) && filePath.endsWith('.json') && fs.existsSync(filePath);
+}
+
+function renderSection(title: string, content: string): string {
+    return `<h2>${escapeHtml(title)}</h2>\n${content}`;
+}
+
+function renderTable(rows: string[][]): string {
+    const cells = rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`);
+
+    return `<table>${cells.join('\n')}</table>`;
+}
+
+function renderProviderUrls(): string {
+    return renderTable(PROVIDER_VERSIONS.map((version) => {
+        try {
+            return [version, getProviderUrl(version)];
+        } catch (e) {
+            return [version, `Error: ${e.message}`];
+        }
+    }));
+}
+
+function renderBundles(): string {
+    const {state, components} = getBuildStatus();
+    const formatSize = (size: number) => `${(size / 1024).toFixed(1)} KiB`;
+
+    if (state === 'idle') {
+        // Not running webpack, list the pre-built files that are being served instead
+        const distDir = path.resolve(getRootDirectory(), 'dist');
+        const files: string[] = glob.sync('**/*.js', {cwd: distDir, nodir: true});
+
+        return `<p>Serving pre-built files from dist</p>\n${renderTable(files.map((file) => [file, formatSize(fs.statSync(path.join(distDir, file)).size)]))}`;
+    } else {
+        return components.map(({name, assets}) => {
+            return `<h3>${escapeHtml(name)}</h3>\n${renderTable(assets.map((asset) => [asset.name, formatSize(asset.size)]))}`;
+        }).join('\n');
+    }
+}
+
+async function renderManifests(args: CLIArguments): Promise<string> {
+    const resDir = path.resolve(getRootDirectory(), 'res');
+    const files: string[] = glob.sync('**/*.json', {cwd: resDir});
+    const manifests: string[] = [];
+
+    for (const file of files) {
+        let original: {startup_app?: {}; platform?: {}};
+        let served: string;
+
+        try {
+            original = JSON.parse(fs.readFileSync(path.join(resDir, file), 'utf8'));
+        } catch (e) {
+            continue;
+        }
+
+        if (!original || !(original.startup_app || original.platform)) {
+            // Not a manifest
+            continue;
+        }
+
+        try {
+            served = JSON.stringify(await getServedManifest(file, args), null, 4);
+        } catch (e) {
+            served = `Not re-written by the local server: ${e.message}`;
+        }
+
+        manifests.push(`<h3><a href="/${escapeHtml(file)}">${escapeHtml(file)}</a> <button data-manifest="/${escapeHtml(file)}">Launch</button></h3>
+<details><summary>On disk</summary><pre>${escapeHtml(JSON.stringify(original, null, 4))}</pre></details>
+<details><summary>As served</summary><pre>${escapeHtml(served)}</pre></details>`);
+    }
+
+    return manifests.join('\n') || '<p>No manifests found within res</p>';
+}
+
+/**
+ * Renders a form that builds a URL to `createCustomManifestMiddleware`. The form fields map directly to the query args
+ * supported by the middleware.
+ */
+function renderLauncher(args: CLIArguments): string {
+    const {RUNTIME_INJECTABLE} = getProjectConfig();
+    const fields = [
+        `<label>Provider <input name="provider" value="${escapeHtml(args.providerVersion)}"></label>`,
+        `<label>Runtime <input name="runtime" value="${escapeHtml(args.runtime || '')}" placeholder="(demo app runtime)"></label>`,
+        '<label>Realm <input name="realmName" placeholder="(none)"></label>',
+        '<label>Config <input name="config" placeholder="(JSON)"></label>',
+        '<label>URL <input name="url" placeholder="(testbed)"></label>',
+        '<br>',
+        '<label><input type="checkbox" name="useService" checked> Use service</label>',
+        RUNTIME_INJECTABLE ? `<label><input type="checkbox" name="asar"${args.asar ? ' checked' : ''}> ASAR</label>` : '',
+        '<label><input type="checkbox" name="frame" checked> Frame</label>',
+        '<label><input type="checkbox" name="enableMesh" checked> Enable mesh</label>'
+    ];
+
+    return `<form id="launcher">
+    ${fields.join('\n    ')}
+    <br>
+    <button type="submit">Launch</button> <code id="launcher-url"></code>
+</form>
+<script>
+    document.getElementById('launcher').addEventListener('submit', (event) => {
+        const params = new URLSearchParams();
+
+        event.preventDefault();
+        Array.from(event.target.elements).filter((input) => input.name).forEach((input) => {
+            if (input.type === 'checkbox') {
+                params.set(input.name, input.checked.toString());
+            } else if (input.value) {
+                params.set(input.name, input.value);
+            }
+        });
+
+        const manifest = '/manifest?' + params.toString();
+        document.getElementById('launcher-url').textContent = manifest;
+        launchManifest(manifest);
+    });
+</script>`;
+}
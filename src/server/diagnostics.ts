@@ -0,0 +1,89 @@
+import * as path from 'path';
+
+import {RequestHandler} from 'express-serve-static-core';
+
+import {TOOLING_ROUTE} from '../constants';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {escapeHtml} from '../utils/html';
+import {BuildDiagnostic, getBuildStatus} from '../webpack/buildStatus';
+
+/**
+ * Path of the build diagnostics page on the local server. The same data is available as JSON, by appending ".json" to
+ * this path.
+ */
+export const DIAGNOSTICS_PATH = `${TOOLING_ROUTE}/errors`;
+
+/**
+ * Creates express-compatible middleware function that returns the current build status as JSON. See
+ * {@link getBuildStatus}.
+ *
+ * Can be polled by applications and test runners to find out if the code they're running is up-to-date.
+ */
+export function createBuildStatusMiddleware(): RequestHandler {
+    return (req, res) => {
+        res.header('Content-Type', 'application/json; charset=utf-8');
+        res.header('Cache-Control', 'no-store');
+        res.send(JSON.stringify(getBuildStatus(), null, 4));
+    };
+}
+
+/**
+ * Creates express-compatible middleware function that serves a page listing any errors and warnings from the most recent
+ * build, grouped by component. Each diagnostic links to the source file that caused it.
+ */
+export function createDiagnosticsPageMiddleware(): RequestHandler {
+    return (req, res) => {
+        const {state, updated, components} = getBuildStatus();
+        const sections = components.map(({name, errors, warnings}) => {
+            const items = [
+                ...errors.map((error) => renderDiagnostic(error, 'error')),
+                ...warnings.map((warning) => renderDiagnostic(warning, 'warning'))
+            ];
+
+            return `<h2>${escapeHtml(name)} <small>${errors.length} error(s), ${warnings.length} warning(s)</small></h2>\n${items.join('\n')}`;
+        });
+
+        res.header('Content-Type', 'text/html; charset=utf-8');
+        res.header('Cache-Control', 'no-store');
+        res.send(`<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Build ${state}</title>
+    ${state === 'building' ? '<meta http-equiv="refresh" content="2">' : ''}
+    <style>
+        body {font-family: sans-serif; margin: 24px; background: #1e1e1e; color: #ddd;}
+        h1.failed {color: #ff8080;}
+        h1.success {color: #80ff80;}
+        small {color: #999; font-weight: normal;}
+        a {color: #80c0ff;}
+        pre {background: #111; padding: 8px; overflow: auto; white-space: pre-wrap;}
+        .error {border-left: 4px solid #ff8080; padding-left: 8px; margin-bottom: 16px;}
+        .warning {border-left: 4px solid #ffc080; padding-left: 8px; margin-bottom: 16px;}
+    </style>
+</head>
+<body>
+    <h1 class="${state}">Build ${state}</h1>
+    <p>
+        Last updated ${new Date(updated).toLocaleTimeString()}.
+        <a href="${DIAGNOSTICS_PATH}.json">View as JSON</a> | <a href="${TOOLING_ROUTE}/">Dashboard</a>
+    </p>
+    ${sections.join('\n')}
+</body>
+</html>`);
+    };
+}
+
+function renderDiagnostic({message, file, line, column}: BuildDiagnostic, severity: 'error' | 'warning'): string {
+    let location = '';
+
+    if (file) {
+        const position = line ? `:${line}${column ? `:${column}` : ''}` : '';
+        const label = `${path.relative(getRootDirectory(), file)}${position}`;
+
+        // Links will open the file within VS Code, if installed
+        location = `<a href="vscode://file/${encodeURI(file.replace(/\\/g, '/'))}${position}">${escapeHtml(label)}</a>`;
+    }
+
+    return `<div class="${severity}">${location}<pre>${escapeHtml(message)}</pre></div>`;
+}
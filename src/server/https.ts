@@ -0,0 +1,74 @@
+import * as path from 'path';
+
+import * as execa from 'execa';
+import * as fs from 'fs-extra';
+
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+/**
+ * Directory that generated certificates are cached within, relative to the project root.
+ */
+const CERT_DIR = '.svc-tools/certs';
+
+/**
+ * Number of days that a generated certificate is valid for. Certificates are re-generated a few days before they expire.
+ */
+const CERT_VALIDITY_DAYS = 365;
+
+export interface HttpsCredentials {
+    key: string;
+    cert: string;
+}
+
+/**
+ * Returns the private key and certificate to use when serving the project over HTTPS. See `ConfigFile.HTTPS`.
+ *
+ * If the project config specifies `HTTPS_KEY` and `HTTPS_CERT`, these files are used as-is. Otherwise, a self-signed
+ * certificate for "localhost" is generated using openssl, and cached within the project so that it only needs to be
+ * trusted once.
+ */
+export function getHttpsCredentials(): HttpsCredentials {
+    const {HTTPS_KEY, HTTPS_CERT} = getProjectConfig();
+
+    if (HTTPS_KEY && HTTPS_CERT) {
+        return {
+            key: fs.readFileSync(path.resolve(getRootDirectory(), HTTPS_KEY), 'utf8'),
+            cert: fs.readFileSync(path.resolve(getRootDirectory(), HTTPS_CERT), 'utf8')
+        };
+    } else if (HTTPS_KEY || HTTPS_CERT) {
+        throw new Error('HTTPS_KEY and HTTPS_CERT must be set together. Remove both to use a generated certificate instead.');
+    }
+
+    const certDir = path.resolve(getRootDirectory(), CERT_DIR);
+    const keyPath = path.join(certDir, 'localhost.key');
+    const certPath = path.join(certDir, 'localhost.crt');
+
+    if (!fs.existsSync(keyPath) || !fs.existsSync(certPath) || isExpiring(certPath)) {
+        generateCertificate(keyPath, certPath);
+    }
+
+    return {key: fs.readFileSync(keyPath, 'utf8'), cert: fs.readFileSync(certPath, 'utf8')};
+}
+
+function isExpiring(certPath: string): boolean {
+    const ageInDays = (Date.now() - fs.statSync(certPath).mtimeMs) / (24 * 60 * 60 * 1000);
+
+    return ageInDays > CERT_VALIDITY_DAYS - 5;
+}
+
+function generateCertificate(keyPath: string, certPath: string): void {
+    console.log(`Generating self-signed certificate for localhost within ${path.dirname(certPath)}`);
+    fs.mkdirpSync(path.dirname(certPath));
+
+    try {
+        const subject = '-subj /CN=localhost -addext subjectAltName=DNS:localhost,IP:127.0.0.1';
+        const args = `req -x509 -newkey rsa:2048 -nodes -sha256 -days ${CERT_VALIDITY_DAYS} ${subject}`.split(' ');
+
+        execa.sync('openssl', [...args, '-keyout', keyPath, '-out', certPath]);
+    } catch (e) {
+        throw new Error(`Couldn't generate a certificate using openssl (${e.message}). Install openssl, or set HTTPS_KEY and HTTPS_CERT in config.`);
+    }
+
+    console.log(`Certificate created. To avoid certificate errors, add ${certPath} to the trusted root certificates of this machine.`);
+}
@@ -1,45 +1,128 @@
 import * as path from 'path';
 
+import * as fs from 'fs-extra';
 import {NextFunction, Request, RequestHandler, Response} from 'express-serve-static-core';
 
 import {getJsonFile} from '../utils/getJsonFile';
-import {getManifest, RewriteContext, getPlatformManifest, annotateAppWithService} from '../utils/getManifest';
+import {getManifest, RewriteContext, getPlatformManifest, annotateAppWithService, ManifestTransform, recordTransform} from '../utils/getManifest';
 import {getProjectConfig} from '../utils/getProjectConfig';
-import {getProviderUrl} from '../utils/manifest';
-import {ClassicManifest, ServiceDeclaration, Manifest} from '../utils/manifests';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {getCdnRoot, getProviderUrl} from '../utils/manifest';
+import {ClassicManifest, ServiceDeclaration, Manifest, PlatformLayout} from '../utils/manifests';
+import {getServerOrigin} from '../utils/url';
 import {CLIArguments} from '../types';
 
+import {addReloadScript} from './reload';
+import {rewriteLocalServices} from './services';
+
+/**
+ * The subset of CLI args that affect the manifests served by the local server.
+ */
+export type ManifestArgs = Pick<CLIArguments, 'providerVersion' | 'asar' | 'runtime' | 'platform'> & {reload?: boolean; shard?: number};
+
 /**
  * Creates express-compatible middleware function that will add/replace any URL's found within app.json files according
  * to the command-line options of this utility.
+ *
+ * Adding `?explain=1` to the request will instead return both the manifest and the list of transformations that were
+ * applied to it, see {@link ManifestTransform}. Adding `?shard=<n>` will run the application within a runtime that is
+ * separate from any other shard, as used by sharded test runs.
  */
-export function createAppJsonMiddleware(args: Pick<CLIArguments, 'providerVersion' | 'asar' | 'runtime' | 'platform'>): RequestHandler {
+export function createAppJsonMiddleware(args: ManifestArgs): RequestHandler {
     return async (req: Request, res: Response, next: NextFunction) => {
         const configPath = req.params[0];            // app.json path, relative to 'res' dir
-        const isProvider = configPath.toLowerCase().includes('provider');
+
+        const explain = ['1', 'true'].includes(req.query.explain);
+        const shard = parseInt(req.query.shard) || undefined;
+        const transforms: ManifestTransform[] = [];
 
         // Parse app.json
-        let config: ClassicManifest;
+        let config: Manifest;
         try {
-            config = await getManifest(configPath, RewriteContext.DEBUG, args);
+            config = await getServedManifest(configPath, shard ? {...args, shard} : args, transforms);
         } catch (e) {
             next();
             return;
         }
 
-        // If this is the provider manifest, ensure window is always visible
-        if (isProvider && config.startup_app?.autoShow === false) {
-            config.startup_app.autoShow = true;
-        }
+        // Return modified JSON to client
+        res.header('Content-Type', 'application/json; charset=utf-8');
+        res.send(JSON.stringify(explain ? {manifest: config, transforms} : config, null, 4));
+    };
+}
+
+/**
+ * Returns a manifest from the 'res' directory, exactly as it would be served by {@link createAppJsonMiddleware}.
+ *
+ * @param configPath Path to an app.json file, relative to the 'res' directory
+ * @param args The subset of CLI args that require manifest overrides
+ * @param transforms Optional array, that will have a {@link ManifestTransform} added for each change made to the manifest
+ */
+export async function getServedManifest(configPath: string, args: ManifestArgs, transforms: ManifestTransform[] = []): Promise<Manifest> {
+    const isProvider = configPath.toLowerCase().includes('provider');
+    const config: ClassicManifest = await getManifest(configPath, RewriteContext.DEBUG, args, transforms);
+
+    // Point any other services at their local equivalent, if running locally
+    rewriteLocalServices(config, transforms);
+
+    // If this is the provider manifest, ensure window is always visible
+    if (isProvider && config.startup_app?.autoShow === false) {
+        recordTransform(transforms, 'startup_app.autoShow', false, true, 'Provider window is always visible when run locally');
+        config.startup_app.autoShow = true;
+    }
+
+    // Add live-reload client to all windows of the application
+    if (args.reload) {
+        const {preloadScripts} = config.startup_app;
+
+        addReloadScript(config.startup_app);
+        recordTransform(transforms, 'startup_app.preloadScripts', preloadScripts, config.startup_app.preloadScripts, 'Adds live-reload client ("--reload")');
+    }
+
+    // Each shard of a test run gets its own security realm, so that each shard's application runs on a separate runtime
+    if (args.shard) {
+        const {NAME} = getProjectConfig();
+        const runtimeArgs = config.runtime.arguments;
+        const reason = `Runs test shard ${args.shard} in a separate runtime ("--shards")`;
+
+        config.runtime.arguments = `${runtimeArgs || ''} --security-realm=${NAME}-shard-${args.shard}`.trim();
+        recordTransform(transforms, 'runtime.arguments', runtimeArgs, config.runtime.arguments, reason);
+    }
+
+    if (args.platform && !isProvider) {
+        transforms.push({path: '', reason: 'Converted to a platform manifest ("--platform")'});
+        return getPlatformManifest(config);
+    } else {
+        return config;
+    }
+}
+
+/**
+ * Creates express-compatible middleware function that serves any JSON files within the project's CDN mirror. Any
+ * references to the CDN within these files are replaced with the equivalent URL on the local server, so that manifests
+ * within the mirror don't load any resources from the real CDN.
+ *
+ * Should be mounted at the path of the CDN root on the local server, see {@link getCdnRoot}. Requests for any other
+ * files are passed on to the next middleware.
+ */
+export function createCdnMirrorMiddleware(): RequestHandler {
+    const {CDN_LOCATION, CDN_MIRROR} = getProjectConfig();
+    const mirrorDir = path.resolve(getRootDirectory(), CDN_MIRROR!);
+    const cdnRoot = getCdnRoot(CDN_LOCATION);
+    const localRoot = getCdnRoot();
 
-        let finalConfig: Manifest = config;
-        if (args.platform && !isProvider) {
-            finalConfig = getPlatformManifest(config);
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const filePath = path.join(mirrorDir, path.normalize(req.path));
+
+        if (!filePath.endsWith('.json') || !filePath.startsWith(mirrorDir) || !await fs.pathExists(filePath)) {
+            next();
+            return;
         }
 
-        // Return modified JSON to client
+        const content = await fs.readFile(filePath, 'utf8');
+
         res.header('Content-Type', 'application/json; charset=utf-8');
-        res.send(JSON.stringify(finalConfig, null, 4));
+        res.send(content.split(cdnRoot).join(localRoot));
     };
 }
 
@@ -48,9 +131,12 @@ export function createAppJsonMiddleware(args: Pick<CLIArguments, 'providerVersio
  *
  * Differs from createAppJsonMiddleware (defined in server.js), as this spawns custom demo windows, rather than
  * re-writing existing demo/provider manifests.
+ *
+ * Adding `?platform=true` will instead generate a platform manifest, with a single window. The window will contain a
+ * single view of `url`, unless a `layout` query arg (a JSON-encoded {@link PlatformLayout}) is given.
  */
 export function createCustomManifestMiddleware(): RequestHandler {
-    const {PORT, NAME} = getProjectConfig();
+    const {NAME} = getProjectConfig();
 
     return async (req, res, next) => {
         const defaultConfig = await getJsonFile<ClassicManifest>(path.resolve('./res/demo/app.json')).catch(next);
@@ -59,93 +145,112 @@ export function createCustomManifestMiddleware(): RequestHandler {
             return;
         }
 
-        const randomId = Math.random().toString(36).substr(2, 4);
-        const query: {[key: string]: string} = req.query;
-        const {
-            uuid,
-            name,
-            url,
-            frame,
-            defaultCentered,
-            defaultLeft,
-            defaultTop,
-            defaultWidth,
-            defaultHeight,
-            realmName,
-            enableMesh,
-            runtime,
-            useService,
-            asar,
-            provider,
-            config,
-            licenseKey,
-            shortcut
-        } = {
-            // Set default values
-            uuid: `test-app-${randomId}`,
-            name: `Openfin Test App ${randomId}`,
-            url: `http://localhost:${PORT}/demo/testbed/index.html`,
-            runtime: defaultConfig.runtime.version,
-            provider: 'local',
-            config: null,
-            realmName: null,
-
-            // Override with query args
-            ...query,
-
-            // Special handling for any non-string args (both parses query string args, and defines default values)
-            frame: req.query.frame !== 'false',
-            enableMesh: req.query.enableMesh !== 'false',
-            useService: req.query.useService !== 'false',
-            asar: req.query.asar === 'true',
-            defaultCentered: req.query.defaultCentered === 'true',
-            defaultLeft: Number.parseInt(req.query.defaultLeft, 10) || 860,
-            defaultTop: Number.parseInt(req.query.defaultTop, 10) || 605,
-            defaultWidth: Number.parseInt(req.query.defaultWidth, 10) || 860,
-            defaultHeight: Number.parseInt(req.query.defaultHeight, 10) || 605,
-            licenseKey: defaultConfig.licenseKey,
-            shortcut: req.query.shortcutName
-                ? {
-                    'company': 'OpenFin',
-                    'icon': 'openfin-test-icon.ico',
-                    'name': req.query.shortcutName
-                }
-                : undefined
-        };
-
-        const manifest: ClassicManifest = {
-            licenseKey,
-            startup_app: // eslint-disable-line @typescript-eslint/camelcase
-                {uuid, name, url, frame, autoShow: true, saveWindowState: false, defaultCentered, defaultLeft, defaultTop, defaultWidth, defaultHeight},
-            runtime: {arguments: `--v=1${realmName ? ` --security-realm=${realmName}${enableMesh ? ' --enable-mesh' : ''}` : ''}`, version: runtime},
-            services: [],
-            shortcut
-        };
-        if (useService) {
-            if (asar) {
-                const {RUNTIME_INJECTABLE} = getProjectConfig();
-
-                if (RUNTIME_INJECTABLE) {
-                    annotateAppWithService(manifest.startup_app, {name: NAME, config: config!}, provider);
+        // Any invalid query args (such as malformed JSON) are reported to the client, rather than being thrown from the
+        // handler - which express wouldn't catch
+        try {
+            const randomId = Math.random().toString(36).substr(2, 4);
+            const query: {[key: string]: string} = req.query;
+            const {
+                uuid,
+                name,
+                url,
+                frame,
+                defaultCentered,
+                defaultLeft,
+                defaultTop,
+                defaultWidth,
+                defaultHeight,
+                realmName,
+                enableMesh,
+                runtime,
+                useService,
+                asar,
+                provider,
+                config,
+                licenseKey,
+                shortcut,
+                platform,
+                layout
+            } = {
+                // Set default values
+                uuid: `test-app-${randomId}`,
+                name: `Openfin Test App ${randomId}`,
+                url: `${getServerOrigin()}/demo/testbed/index.html`,
+                runtime: defaultConfig.runtime.version,
+                provider: 'local',
+                config: null,
+                realmName: null,
+
+                // Override with query args
+                ...query,
+
+                // Special handling for any non-string args (both parses query string args, and defines default values)
+                frame: req.query.frame !== 'false',
+                enableMesh: req.query.enableMesh !== 'false',
+                useService: req.query.useService !== 'false',
+                asar: req.query.asar === 'true',
+                platform: req.query.platform === 'true',
+                layout: req.query.layout ? parseJsonArg<PlatformLayout>('layout', req.query.layout) : undefined,
+                defaultCentered: req.query.defaultCentered === 'true',
+                defaultLeft: Number.parseInt(req.query.defaultLeft, 10) || 860,
+                defaultTop: Number.parseInt(req.query.defaultTop, 10) || 605,
+                defaultWidth: Number.parseInt(req.query.defaultWidth, 10) || 860,
+                defaultHeight: Number.parseInt(req.query.defaultHeight, 10) || 605,
+                licenseKey: defaultConfig.licenseKey,
+                shortcut: req.query.shortcutName
+                    ? {
+                        'company': 'OpenFin',
+                        'icon': 'openfin-test-icon.ico',
+                        'name': req.query.shortcutName
+                    }
+                    : undefined
+            };
+
+            const manifest: ClassicManifest = {
+                licenseKey,
+                startup_app: // eslint-disable-line @typescript-eslint/camelcase
+                    {uuid, name, url, frame, autoShow: true, saveWindowState: false, defaultCentered, defaultLeft, defaultTop, defaultWidth, defaultHeight},
+                runtime: {arguments: `--v=1${realmName ? ` --security-realm=${realmName}${enableMesh ? ' --enable-mesh' : ''}` : ''}`, version: runtime},
+                services: [],
+                shortcut
+            };
+            if (useService) {
+                if (asar) {
+                    const {RUNTIME_INJECTABLE} = getProjectConfig();
+
+                    if (platform) {
+                        throw new Error('"asar=true" can\'t be used with "platform=true", as the service is injected into the startup app');
+                    } else if (RUNTIME_INJECTABLE) {
+                        annotateAppWithService(manifest.startup_app, {name: NAME, config: config!}, provider);
+                    } else {
+                        throw new Error('"asar=true" can only be used if the RUNTIME_INJECTABLE config option is set within services.config.json');
+                    }
                 } else {
-                    throw new Error('"asar=true" can only be used if the RUNTIME_INJECTABLE config option is set within services.config.json');
-                }
-            } else {
-                const service: ServiceDeclaration = {name: NAME};
+                    const service: ServiceDeclaration = {name: NAME};
 
-                if (provider !== 'default') {
-                    service.manifestUrl = getProviderUrl(provider);
-                }
-                if (config) {
-                    service.config = JSON.parse(config!);
+                    if (provider !== 'default') {
+                        service.manifestUrl = getProviderUrl(provider);
+                    }
+                    if (config) {
+                        service.config = parseJsonArg('config', config!);
+                    }
+                    manifest.services = [service];
                 }
-                manifest.services = [service];
             }
-        }
 
-        // Return modified JSON to client
-        res.header('Content-Type', 'application/json; charset=utf-8');
-        res.send(JSON.stringify(manifest, null, 4));
+            // Return modified JSON to client
+            res.header('Content-Type', 'application/json; charset=utf-8');
+            res.send(JSON.stringify(platform ? getPlatformManifest(manifest, layout) : manifest, null, 4));
+        } catch (e) {
+            res.status(400).send(e.message);
+        }
     };
 }
 
+function parseJsonArg<T = unknown>(name: string, value: string): T {
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        throw new Error(`Invalid "${name}" query arg, must be valid JSON: ${e.message}`);
+    }
+}
@@ -0,0 +1,250 @@
+import * as net from 'net';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+/**
+ * Location of the lockfile that records the ports used by each running instance of the local server, relative to the
+ * project root. Excluded from releases, see `createRelease`.
+ */
+const LOCKFILE_PATH = 'dist/ports.lock';
+
+/**
+ * How long to wait for another process to finish updating the lockfile, before giving up.
+ */
+const MUTEX_TIMEOUT = 5000;
+
+let hasExitListener = false;
+
+/**
+ * The kinds of port that are recorded within the lockfile. Each instance of the local server has a 'server' port, and
+ * may also have a 'socket' port if started with `--reload`.
+ */
+export type PortKind = 'server' | 'socket';
+
+/**
+ * An entry within the ports lockfile.
+ */
+export interface PortLock {
+    port: number;
+    kind: PortKind;
+
+    /**
+     * ID of the process that is running the server.
+     */
+    pid: number;
+
+    /**
+     * The CLI args that the instance was started with.
+     */
+    command: string;
+
+    /**
+     * Time that the server was started, as an ISO date string.
+     */
+    started: string;
+}
+
+/**
+ * Parses the value of a `--port` CLI arg.
+ *
+ * @param port Either a port number, or "auto" to use the first free port - starting with the port within project config
+ */
+export async function selectPort(port: string): Promise<number> {
+    if (port === 'auto') {
+        return findFreePort(getProjectConfig().PORT, 'server');
+    } else if (/^\d+$/.test(port) && parseInt(port) > 0 && parseInt(port) <= 65535) {
+        return parseInt(port);
+    } else {
+        throw new Error(`Not a valid port: ${port}. Must be a port number, or "auto"`);
+    }
+}
+
+/**
+ * Returns a port that is currently free, and reserves it for the current process within the ports lockfile. Ports that
+ * have been claimed by another instance of the local server (see {@link claimPort}) are skipped, even if that instance
+ * isn't yet listening.
+ *
+ * @param preferredPort Port to return if available, otherwise the OS will be asked to assign a free port
+ * @param kind What the port will be used for, as recorded within the lockfile
+ */
+export async function findFreePort(preferredPort: number | undefined, kind: PortKind): Promise<number> {
+    for (;;) {
+        const claimed = readLocks().map((lock) => lock.port);
+        let port: number;
+
+        if (preferredPort && !claimed.includes(preferredPort) && await isPortFree(preferredPort)) {
+            port = preferredPort;
+        } else {
+            do {
+                port = await listenOnce(0);
+            } while (claimed.includes(port));
+        }
+
+        // Another instance may have claimed the same port whilst it was being checked, in which case try again
+        if (addLock(port, kind, false)) {
+            return port;
+        }
+    }
+}
+
+/**
+ * Records that the current process owns the given port, within the ports lockfile. Entries are removed when the process
+ * exits. Entries from any processes that are no longer running are removed whenever the lockfile is updated.
+ *
+ * @param port Port that the local server is listening on
+ */
+export function claimPort(port: number): void {
+    addLock(port, 'server', true);
+}
+
+/**
+ * Returns the ports used by the instances of the local server that are currently running within this project.
+ *
+ * @param kind If specified, only ports of this kind are returned
+ */
+export function readLocks(kind?: PortKind): PortLock[] {
+    const lockfile = path.resolve(getRootDirectory(), LOCKFILE_PATH);
+    let locks: PortLock[] = [];
+
+    try {
+        locks = fs.existsSync(lockfile) ? JSON.parse(fs.readFileSync(lockfile, 'utf8')) : [];
+    } catch (e) {
+        console.warn(`Ignoring invalid lockfile ${lockfile}`);
+    }
+
+    return locks.filter((lock) => isRunning(lock.pid) && (!kind || lock.kind === kind));
+}
+
+/**
+ * Adds an entry for the current process to the lockfile.
+ *
+ * @param port Port to record
+ * @param kind What the port is used for
+ * @param force If true, replaces any existing entry for the port. Otherwise, the entry is only added if no other
+ * process has claimed the port.
+ * @returns Whether the entry was added
+ */
+function addLock(port: number, kind: PortKind, force: boolean): boolean {
+    const lock: PortLock = {port, kind, pid: process.pid, command: process.argv.slice(2).join(' '), started: new Date().toISOString()};
+
+    const added = withMutex(() => {
+        const locks = readLocks();
+
+        if (!force && locks.some((existing) => existing.port === port && existing.pid !== process.pid)) {
+            return false;
+        }
+
+        writeLocks([...locks.filter((existing) => existing.port !== port), lock]);
+        return true;
+    });
+
+    if (added && !hasExitListener) {
+        hasExitListener = true;
+        process.on('exit', () => {
+            withMutex(() => writeLocks(readLocks().filter((existing) => existing.pid !== process.pid)));
+        });
+    }
+
+    return added;
+}
+
+/**
+ * Runs `callback` whilst holding an exclusive lock on the lockfile, so that concurrent instances don't overwrite each
+ * other's changes. The lock is a file that is created with `O_EXCL`, and contains the ID of the process that holds it.
+ * Locks held by processes that are no longer running are ignored.
+ *
+ * Synchronous, so that it can be used from an `exit` listener.
+ */
+function withMutex<T>(callback: () => T): T {
+    const mutex = `${path.resolve(getRootDirectory(), LOCKFILE_PATH)}.mutex`;
+    const timeout = Date.now() + MUTEX_TIMEOUT;
+    let fd: number | null = null;
+
+    fs.mkdirpSync(path.dirname(mutex));
+    while (fd === null) {
+        try {
+            fd = fs.openSync(mutex, 'wx');
+        } catch (e) {
+            if (e.code !== 'EEXIST') {
+                throw e;
+            }
+
+            const owner = parseInt(readFileOrEmpty(mutex));
+            if (owner && !isRunning(owner)) {
+                fs.removeSync(mutex);
+            } else if (Date.now() > timeout) {
+                throw new Error(`Timed-out waiting for ${mutex} to be released${owner ? ` by process ${owner}` : ''}`);
+            } else {
+                sleepSync(10);
+            }
+        }
+    }
+
+    try {
+        fs.writeSync(fd, process.pid.toString());
+        fs.closeSync(fd);
+
+        return callback();
+    } finally {
+        fs.removeSync(mutex);
+    }
+}
+
+function writeLocks(locks: PortLock[]): void {
+    const lockfile = path.resolve(getRootDirectory(), LOCKFILE_PATH);
+    const tempFile = `${lockfile}.${process.pid}`;
+
+    // Write via a temporary file, so that other instances never read a partially-written lockfile
+    fs.mkdirpSync(path.dirname(lockfile));
+    fs.writeFileSync(tempFile, JSON.stringify(locks, null, 4));
+    fs.renameSync(tempFile, lockfile);
+}
+
+function readFileOrEmpty(filePath: string): string {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch (e) {
+        return '';
+    }
+}
+
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isRunning(pid: number): boolean {
+    try {
+        // Signal 0 checks that the process exists, without affecting it
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        // EPERM indicates the process exists, but is owned by another user
+        return e.code === 'EPERM';
+    }
+}
+
+async function isPortFree(port: number): Promise<boolean> {
+    return listenOnce(port).then(() => true, () => false);
+}
+
+/**
+ * Briefly listens on the given port, to check that it is available.
+ *
+ * @param port Port to listen on, or 0 to use any free port
+ * @returns The port that was listened on
+ */
+function listenOnce(port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+
+        server.once('error', reject);
+        server.listen(port, () => {
+            const {port: boundPort} = server.address() as net.AddressInfo;
+            server.close(() => resolve(boundPort));
+        });
+    });
+}
@@ -0,0 +1,111 @@
+import {RequestHandler} from 'express-serve-static-core';
+
+import {TOOLING_ROUTE} from '../constants';
+import {ClassicManifest} from '../utils/manifests';
+import {getServerOrigin} from '../utils/url';
+
+import {BuildDoneMessage, getSocketPort} from './websocket';
+
+/**
+ * Path of the live-reload script on the local server.
+ */
+export const RELOAD_SCRIPT_PATH = `${TOOLING_ROUTE}/reload.js`;
+
+/**
+ * Creates express-compatible middleware function that serves the live-reload client script.
+ *
+ * The script connects to the socket server created by `createSocketServer`, and will reload the window whenever the
+ * bundle that the window was loaded from is re-built. If a build fails, an overlay containing the build errors is shown
+ * within the window until the next successful build.
+ */
+export function createReloadScriptMiddleware(): RequestHandler {
+    const script = `(${reloadClient.toString()})(${JSON.stringify(getServerOrigin())}, ${getSocketPort()});`;
+
+    return (req, res) => {
+        res.header('Content-Type', 'application/javascript; charset=utf-8');
+        res.send(script);
+    };
+}
+
+/**
+ * Adds the live-reload client script to an application, as a preload script.
+ *
+ * @param application The startup_app of a manifest served by the local server
+ */
+export function addReloadScript(application: ClassicManifest['startup_app']): void {
+    application.preloadScripts = [...(application.preloadScripts || []), {url: `${getServerOrigin()}${RELOAD_SCRIPT_PATH}`}];
+}
+
+/**
+ * The live-reload client. Runs within each window of an application, and is served to the window as a string - so must
+ * not reference anything outside of the function body.
+ *
+ * @param serverOrigin Origin of the local server. Windows that weren't loaded from the local server will never reload.
+ * @param socketPort Port of the socket server that broadcasts build events
+ */
+function reloadClient(serverOrigin: string, socketPort: number): void {
+    const overlayId = 'svc-tools-error-overlay';
+
+    if (location.origin !== serverOrigin) {
+        return;
+    }
+
+    // Windows are grouped into components by the first directory of their URL. Windows within the root directory will
+    // match the root component (used by projects with a single component, such as standalone applications).
+    const matchesWindow = (component: string) => component === '' || location.pathname.startsWith(`/${component}/`);
+
+    const showErrors = (errors: BuildDoneMessage['errors']) => {
+        if (!document.body) {
+            window.addEventListener('DOMContentLoaded', () => showErrors(errors));
+            return;
+        }
+
+        const overlay = document.getElementById(overlayId) || document.createElement('div');
+        const content = document.createElement('pre');
+
+        overlay.id = overlayId;
+        overlay.style.cssText = 'position:fixed;top:0;left:0;right:0;bottom:0;z-index:2147483647;overflow:auto;margin:0;' +
+            'padding:16px;background:rgba(24,0,0,0.9);color:#ff8080;font:12px/1.4 monospace;';
+        content.textContent = errors.map(({component, messages}) => `Build failed: ${component || 'dist'}\n\n${messages.join('\n\n')}`).join('\n\n');
+
+        overlay.innerHTML = '';
+        overlay.appendChild(content);
+        document.body.appendChild(overlay);
+    };
+
+    const hideErrors = () => {
+        const overlay = document.getElementById(overlayId);
+
+        if (overlay) {
+            overlay.remove();
+        }
+    };
+
+    const connect = () => {
+        // Socket server will use TLS whenever the local server does, see `createSocketServer`
+        const ws = new WebSocket(`${location.protocol === 'https:' ? 'wss' : 'ws'}://localhost:${socketPort}`);
+
+        ws.onmessage = (event: MessageEvent) => {
+            const message: {type: string} = JSON.parse(event.data);
+
+            if (message.type === 'done') {
+                const {changed, errors} = message as BuildDoneMessage;
+
+                if (errors.length > 0) {
+                    showErrors(errors);
+                } else if (changed.some(matchesWindow)) {
+                    location.reload();
+                } else {
+                    hideErrors();
+                }
+            }
+        };
+
+        // Keep trying to re-connect, in case the local server is restarted
+        ws.onclose = () => {
+            setTimeout(connect, 2000);
+        };
+    };
+
+    connect();
+}
@@ -1,16 +1,29 @@
+import * as fs from 'fs';
+import * as https from 'https';
 import * as os from 'os';
+import * as path from 'path';
 
 import * as express from 'express';
-import {connect, launch} from 'hadouken-js-adapter';
 
+import {SOCKET_PORT_PATH, WSS_DEFAULT_PORT} from '../constants';
+import {getLauncher} from '../launcher';
 import {CLIArguments} from '../types';
 import {getProjectConfig} from '../utils/getProjectConfig';
-import {getProviderUrl, getManifest} from '../utils/manifest';
+import {getCdnRoot, getProviderUrl, getManifest} from '../utils/manifest';
 import {getRootDirectory} from '../utils/getRootDirectory';
-import {join, replaceUrlParams} from '../utils/url';
+import {exitProcess, trackResource, trackServer} from '../utils/shutdown';
+import {getServerOrigin, join, replaceUrlParams} from '../utils/url';
+import {getBuildStatus} from '../webpack/buildStatus';
 import {executeWebpack} from '../webpack/executeWebpack';
 
-import {createAppJsonMiddleware, createCustomManifestMiddleware} from './middleware';
+import {createDashboardMiddleware, createLaunchMiddleware, DASHBOARD_PATH, LAUNCH_PATH} from './dashboard';
+import {createBuildStatusMiddleware, createDiagnosticsPageMiddleware, DIAGNOSTICS_PATH} from './diagnostics';
+import {getHttpsCredentials} from './https';
+import {createAppJsonMiddleware, createCdnMirrorMiddleware, createCustomManifestMiddleware} from './middleware';
+import {claimPort, findFreePort} from './ports';
+import {createReloadScriptMiddleware, RELOAD_SCRIPT_PATH} from './reload';
+import {createServicesMiddleware, SERVICES_ROUTE} from './services';
+import {createSocketServer, createWebpackEventHandlers, getSocketPort} from './websocket';
 
 /**
  * Creates an express instance.
@@ -30,8 +43,40 @@ export async function createServer() {
  *   - Middleware runs webpack in 'watch' mode; any changes to source files will trigger a partial re-build
  * - Any 'app.json' files within 'res' are pre-processed
  *   - Will explicitly set the provider URL for the service
+ * - If the project has a CDN mirror, it is served at the same path as the CDN
+ * - Any other services listed within the project's SERVICES config are served alongside the project
+ * - Build errors are served as a HTML page, and as JSON
+ * - A dashboard page lists the manifests, provider versions and bundles being served
+ * - If '--reload' is set, any open windows are reloaded whenever their bundle is re-built
  */
 export async function createDefaultMiddleware(app: express.Express, args: CLIArguments) {
+    const {CDN_MIRROR, SERVICES} = getProjectConfig();
+
+    // Add route for the local CDN mirror. Added first, as paths within the mirror could otherwise match the routes below
+    if (CDN_MIRROR) {
+        const mirrorDir = path.resolve(getRootDirectory(), CDN_MIRROR);
+        const mirrorPath = new URL(getCdnRoot()).pathname;
+
+        if (!fs.existsSync(mirrorDir)) {
+            console.warn(`CDN mirror ${mirrorDir} does not exist. Use "svc-tools import-release" to add releases to the mirror.`);
+        }
+
+        app.use(mirrorPath, createCdnMirrorMiddleware(), express.static(mirrorDir));
+    }
+
+    // Add routes for any other services that are being run locally. Also needs to be added before the 'app.json' route.
+    if (SERVICES) {
+        app.use(SERVICES_ROUTE, createServicesMiddleware());
+    }
+
+    // Add routes for checking the status of the build
+    app.use(`${DIAGNOSTICS_PATH}.json`, createBuildStatusMiddleware());
+    app.use(DIAGNOSTICS_PATH, createDiagnosticsPageMiddleware());
+
+    // Add dashboard, for an overview of everything served by the server
+    app.get(DASHBOARD_PATH, createDashboardMiddleware(args));
+    app.post(LAUNCH_PATH, createLaunchMiddleware());
+
     // Add special route for any 'app.json' files - will re-write the contents
     // according to the command-line arguments of this server
     app.use(/\/?(.*\.json)/, createAppJsonMiddleware(args));
@@ -44,10 +89,31 @@ export async function createDefaultMiddleware(app: express.Express, args: CLIArg
     if (args.static) {
         // Run application using pre-built code (use 'npm run build' or 'npm run build:dev')
         app.use(express.static(`${getRootDirectory()}/dist`));
+
+        if (args.reload) {
+            console.warn('"--reload" has no effect when using "--static"');
+        }
     } else {
         // Run application using webpack-dev-middleware. Will build app before launching, and watch
         // for any source file changes
-        app.use(await executeWebpack(args.mode, args.write));
+        const webpackMiddleware = await executeWebpack(args.mode, args.write);
+        app.use(webpackMiddleware);
+        trackResource('Webpack watcher', 'server', () => new Promise<void>((resolve) => webpackMiddleware.close(resolve)));
+
+        // Server will keep running after a failed build, so that the build can be fixed without a restart
+        if (getBuildStatus().state === 'failed') {
+            console.error(`Build errors can also be viewed at ${getServerOrigin()}${DIAGNOSTICS_PATH}`);
+        }
+
+        // Notify windows of any re-builds, and serve the script that listens for these notifications. Socket server will
+        // use a different port if another instance of the local server is already using the default port.
+        if (args.reload) {
+            const socketServer = createSocketServer({useExisting: true, port: await findFreePort(WSS_DEFAULT_PORT, 'socket')});
+
+            createWebpackEventHandlers(webpackMiddleware.context.compiler, socketServer);
+            app.use(RELOAD_SCRIPT_PATH, createReloadScriptMiddleware());
+            app.get(SOCKET_PORT_PATH, (req, res) => res.json({port: getSocketPort()}));
+        }
     }
 
     // Add route for serving static resources
@@ -58,12 +124,20 @@ export async function createDefaultMiddleware(app: express.Express, args: CLIArg
 
 /**
  * Starts the express and returns the express instance.
+ *
+ * The server will use HTTPS if enabled within project config, see {@link getHttpsCredentials}.
  */
 export async function startServer(app: express.Express) {
-    const {PORT} = getProjectConfig();
+    const {PORT, HTTPS} = getProjectConfig();
+
+    console.log(`Starting application server on port ${PORT}${HTTPS ? ' (HTTPS)' : ''}...`);
+    console.log(`Dashboard available at ${getServerOrigin()}${DASHBOARD_PATH}`);
+    claimPort(PORT);
+
+    const server = HTTPS ? https.createServer(getHttpsCredentials(), app).listen(PORT) : app.listen(PORT);
+    trackServer(`Local server (port ${PORT})`, server);
 
-    console.log(`Starting application server on port ${PORT}...`);
-    return app.listen(PORT);
+    return server;
 }
 
 /**
@@ -79,7 +153,7 @@ export async function startApplication(args: CLIArguments) {
         // Launch latest stable version of the service
         const manifestUrl = getProviderUrl(args.providerVersion);
         if (manifestUrl) {
-            await launch({manifestUrl}).catch(console.log);
+            await getLauncher().launch(manifestUrl).catch(console.log);
         }
     }
 
@@ -101,18 +175,18 @@ export async function startApplication(args: CLIArguments) {
 }
 
 function getStartupManifest(): string {
-    const {PORT, MANIFEST, IS_SERVICE} = getProjectConfig();
+    const {MANIFEST, IS_SERVICE} = getProjectConfig();
     const manifest = MANIFEST && replaceUrlParams(MANIFEST);
 
     if (!manifest) {
         // No project-specific manifestUrl
-        return IS_SERVICE ? `http://localhost:${PORT}/demo/app.json` : `http://localhost:${PORT}/app.json`;
+        return IS_SERVICE ? `${getServerOrigin()}/demo/app.json` : `${getServerOrigin()}/app.json`;
     } else if (manifest.includes('://')) {
         // Fully-qualified manifestUrl
         return manifest;
     } else {
         // Prepend base URL to custom manifest path
-        return join(`http://localhost:${PORT}`, manifest);
+        return join(getServerOrigin(), manifest);
     }
 }
 
@@ -123,18 +197,12 @@ function getStartupManifest(): string {
  * Note that the uuid doesn't necesserily need to be the UUID contained within the manifest.
  */
 async function startAppAndWait(manifestUrl: string, exitManifestUrl?: string): Promise<void> {
-    const {NAME} = getProjectConfig();
-
     exitManifestUrl = exitManifestUrl || manifestUrl;
     const manifest = await getManifest(exitManifestUrl);
     const uuid: string = manifest.startup_app.uuid;
 
-    connect({uuid: `wrapper-${NAME}`, manifestUrl}).then(async (fin) => {
-        const app = fin.Application.wrapSync({uuid});
-
-        // Terminate local server when the provider closes
-        app.addListener('closed', async () => {
-            process.exit(0);
-        }).catch(console.error);
+    // Terminate local server when the provider closes
+    getLauncher().launchAndWait(manifestUrl, uuid).then(() => {
+        exitProcess(0);
     }, console.error);
 }
@@ -0,0 +1,196 @@
+import * as http from 'http';
+import * as path from 'path';
+
+import * as express from 'express';
+import {NextFunction, Request, RequestHandler, Response} from 'express-serve-static-core';
+import * as fs from 'fs-extra';
+
+import {TOOLING_ROUTE} from '../constants';
+import {ManifestTransform, recordTransform} from '../utils/getManifest';
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {ClassicManifest} from '../utils/manifests';
+import {getServerOrigin} from '../utils/url';
+
+/**
+ * Base path of any other services that are served by the local server, see `ConfigFile.SERVICES`. Each service is
+ * mounted at `<SERVICES_ROUTE>/<NAME>`.
+ */
+export const SERVICES_ROUTE = `${TOOLING_ROUTE}/services`;
+
+/**
+ * Creates an express router that serves each of the services listed within the `SERVICES` section of project config.
+ *
+ * Services that are mapped to a port are proxied to the local server running on that port. Services that are mapped
+ * to a directory are served from the `res` and `dist` directories of that checkout, with any CDN URLs within its JSON
+ * files re-written to point at the local server.
+ */
+export function createServicesMiddleware(): express.Router {
+    const {SERVICES = {}} = getProjectConfig();
+    // eslint-disable-next-line new-cap
+    const router = express.Router();
+
+    Object.keys(SERVICES).forEach((name) => {
+        const target = SERVICES[name];
+
+        if (typeof target === 'number') {
+            console.log(`Proxying service ${name} to port ${target}`);
+            router.use(`/${name}`, createProxyMiddleware(name, target));
+        } else {
+            const serviceDir = path.resolve(getRootDirectory(), target);
+            const serviceConfig = readServiceConfig(name, serviceDir);
+
+            if (!fs.existsSync(path.join(serviceDir, 'dist'))) {
+                console.warn(`Service ${name} has not been built. Run "svc-tools build" within ${serviceDir} first.`);
+            }
+
+            console.log(`Serving service ${name} from ${serviceDir}`);
+            router.use(
+                `/${name}`,
+                createCheckoutManifestMiddleware(name, serviceDir, serviceConfig.CDN_LOCATION),
+                express.static(path.join(serviceDir, 'res')),
+                express.static(path.join(serviceDir, 'dist'))
+            );
+        }
+    });
+
+    return router;
+}
+
+/**
+ * Returns the URL of the provider manifest of another service, as served by the local server. Will return `null` if
+ * the service isn't listed within the `SERVICES` section of project config.
+ *
+ * @param name The `NAME` of the service
+ */
+export function getLocalServiceUrl(name: string): string | null {
+    const {SERVICES = {}} = getProjectConfig();
+
+    if (SERVICES.hasOwnProperty(name)) {
+        return `${getServerOrigin()}${SERVICES_ROUTE}/${name}/provider/app.json`;
+    } else {
+        return null;
+    }
+}
+
+/**
+ * Points any services declared within a manifest at their locally-served equivalent, if listed within the `SERVICES`
+ * section of project config. Handles both service declarations and the `<NAME>Manifest` key used by runtime-injected
+ * services.
+ *
+ * @param manifest Manifest to modify
+ * @param transforms Optional array, that will have a {@link ManifestTransform} added for each change made to the manifest
+ */
+export function rewriteLocalServices(manifest: ClassicManifest, transforms: ManifestTransform[] = []): void {
+    const {NAME, SERVICES = {}} = getProjectConfig();
+    const startupApp: {[key: string]: any} = manifest.startup_app;
+    const names = Object.keys(SERVICES).filter((name) => name !== NAME);
+
+    names.forEach((name) => {
+        const serviceUrl = getLocalServiceUrl(name)!;
+        const reason = `Service "${name}" is mapped to ${typeof SERVICES[name] === 'number' ? 'port' : 'checkout'} ${SERVICES[name]} by SERVICES config`;
+
+        (manifest.services || []).forEach((service, index) => {
+            if (service.name === name) {
+                // Preserve any query args from the original manifestUrl
+                const queryIndex = (service.manifestUrl || '').indexOf('?');
+                const query = queryIndex >= 0 ? service.manifestUrl!.substr(queryIndex) : '';
+
+                recordTransform(transforms, `services.${index}.manifestUrl`, service.manifestUrl, `${serviceUrl}${query}`, reason);
+                service.manifestUrl = `${serviceUrl}${query}`;
+            }
+        });
+
+        if (startupApp[`${name}Api`] || startupApp[`${name}Manifest`]) {
+            recordTransform(transforms, `startup_app.${name}Manifest`, startupApp[`${name}Manifest`], serviceUrl, reason);
+            startupApp[`${name}Manifest`] = serviceUrl;
+        }
+    });
+}
+
+/**
+ * Forwards all requests to the local server of another service.
+ */
+function createProxyMiddleware(name: string, port: number): RequestHandler {
+    return (req: Request, res: Response) => {
+        const proxyRequest = http.request({
+            host: 'localhost',
+            port,
+            path: req.url,
+            method: req.method,
+            headers: {...req.headers, host: `localhost:${port}`}
+        }, (proxyResponse) => {
+            res.writeHead(proxyResponse.statusCode!, proxyResponse.headers);
+            proxyResponse.pipe(res);
+
+            // Pass on any loss of connection to the client, rather than leaving the response open
+            proxyResponse.on('aborted', () => res.destroy(new Error(`Lost connection to service ${name} on port ${port}`)));
+        });
+
+        proxyRequest.on('error', (error) => {
+            if (res.headersSent) {
+                // Connection was lost part-way through the response, too late to send an error
+                res.destroy(error);
+                return;
+            }
+
+            res.status(502).send(`Service ${name} isn't running on port ${port} (${error.message}). Start it using "svc-tools start --port ${port}".`);
+        });
+        req.pipe(proxyRequest);
+    };
+}
+
+/**
+ * Serves the JSON files within the `res` directory of another service's checkout. Any references to that service's
+ * `CDN_LOCATION` are replaced with the equivalent URL on the local server, in the same way that this project's own
+ * manifests are re-written.
+ */
+function createCheckoutManifestMiddleware(name: string, serviceDir: string, CDN_LOCATION: string): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const filePath = path.join(serviceDir, 'res', path.normalize(req.path));
+
+        if (!filePath.endsWith('.json') || !filePath.startsWith(serviceDir) || !await fs.pathExists(filePath)) {
+            next();
+            return;
+        }
+
+        const component = req.path.split('/')[1];
+        const baseUrl = `${getServerOrigin()}${SERVICES_ROUTE}/${name}/${component}`;
+        const content = await fs.readFile(filePath, 'utf8');
+
+        res.header('Content-Type', 'application/json; charset=utf-8');
+        res.send(content.split(CDN_LOCATION).join(baseUrl));
+    };
+}
+
+/**
+ * Reads the project config of another service's checkout, throwing a descriptive error if `serviceDir` isn't the root
+ * of a service checkout.
+ */
+function readServiceConfig(name: string, serviceDir: string): {CDN_LOCATION: string} {
+    const configPath = path.join(serviceDir, 'services.config.json');
+    const invalid = (reason: string) => {
+        const hint = 'Each service must be mapped to either the port of its local server, or the path of its checkout (relative to the project root).';
+
+        return new Error(`Invalid SERVICES config for "${name}": ${reason}. ${hint}`);
+    };
+    let config: {CDN_LOCATION?: unknown};
+
+    if (!fs.existsSync(serviceDir)) {
+        throw invalid(`${serviceDir} does not exist`);
+    } else if (!fs.existsSync(configPath)) {
+        throw invalid(`${serviceDir} is not a service checkout, as it has no services.config.json`);
+    }
+
+    try {
+        config = fs.readJsonSync(configPath);
+    } catch (e) {
+        throw invalid(`couldn't read ${configPath} (${e.message})`);
+    }
+
+    if (!config || typeof config.CDN_LOCATION !== 'string') {
+        throw invalid(`${configPath} doesn't specify a CDN_LOCATION`);
+    }
+
+    return {CDN_LOCATION: config.CDN_LOCATION};
+}
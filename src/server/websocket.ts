@@ -1,43 +1,142 @@
+import * as https from 'https';
+import * as path from 'path';
+
 import {Server as WebSocketServer} from 'ws';
 import webpack = require('webpack');
 
 import {WSS_DEFAULT_PORT} from '../constants';
+import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {trackServer} from '../utils/shutdown';
+import {BuildDiagnostic, getBuildStatus} from '../webpack/buildStatus';
+
+import {getHttpsCredentials} from './https';
 
 let existingServer: WebSocketServer|undefined;
+let existingPort: number = WSS_DEFAULT_PORT;
 
 interface SocketServerOptions {
     useExisting?: boolean;
+
+    /**
+     * Port to listen on. Defaults to `WSS_DEFAULT_PORT`.
+     */
+    port?: number;
+}
+
+/**
+ * Message sent to all connected clients whenever a build completes.
+ *
+ * Components are identified by their output directory, relative to `dist` - e.g. "provider". For projects that build to
+ * the root of the `dist` directory (such as standalone applications), the component will be an empty string.
+ */
+export interface BuildDoneMessage {
+    type: 'done';
+
+    /**
+     * Components that were re-built since the previous build. Components that had errors are not included.
+     */
+    changed: string[];
+
+    /**
+     * Any build errors, grouped by component.
+     */
+    errors: {component: string; messages: string[]}[];
 }
 
+/**
+ * Creates a socket server, on `WSS_DEFAULT_PORT` unless another port is specified. If the local server is using HTTPS,
+ * the socket server will also use TLS - as pages served over HTTPS can't connect to an insecure socket.
+ *
+ * @param options Set `useExisting` to re-use any server created by a previous call
+ */
 export function createSocketServer(options: SocketServerOptions) {
+    const port = options.port || WSS_DEFAULT_PORT;
+
     if (options.useExisting && existingServer) {
         return existingServer;
+    } else if (getProjectConfig().HTTPS) {
+        const server = https.createServer(getHttpsCredentials()).listen(port);
+
+        // Socket server doesn't close servers that it didn't create, so must be tracked separately
+        trackServer(`Socket server HTTPS listener (port ${port})`, server, 'socket');
+        existingServer = new WebSocketServer({server});
     } else {
-        existingServer = new WebSocketServer({port: WSS_DEFAULT_PORT});
-        return existingServer;
+        existingServer = new WebSocketServer({port});
     }
+
+    trackServer(`Socket server (port ${port})`, existingServer, 'socket');
+
+    existingPort = port;
+    return existingServer;
 }
 
-export function createWebpackEventHandlers(compiler: webpack.MultiCompiler, wss: WebSocketServer) {
-    wss.on('connection', (ws) => {
-        compiler.hooks.done.tap('DoneHook', () => {
-            ws.send(JSON.stringify({type: 'done'}));
-        });
+/**
+ * Returns the port of the most recently created socket server.
+ */
+export function getSocketPort(): number {
+    return existingPort;
+}
 
-        compiler.hooks.invalid.tap('InvalidHook', () => {
-            ws.send(JSON.stringify({type: 'invalid'}));
-        });
+/**
+ * Forwards the build events of a webpack compiler to every client connected to the socket server.
+ *
+ * @param compiler Either a single compiler, or a multi-compiler containing a compiler for each component
+ * @param wss Socket server, see {@link createSocketServer}
+ */
+export function createWebpackEventHandlers(compiler: webpack.ICompiler, wss: WebSocketServer) {
+    const multiCompiler = compiler as webpack.MultiCompiler;
+    let lastBuildTime = Date.now();
+    const broadcast = (message: {type: string}) => {
+        const data = JSON.stringify(message);
 
-        compiler.hooks.run.tap('RunHook', () => {
-            ws.send(JSON.stringify({type: 'run'}));
+        wss.clients.forEach((ws) => {
+            ws.send(data);
         });
+    };
 
-        compiler.hooks.watchRun.tap('WatchRun', () => {
-            ws.send(JSON.stringify({type: 'watchRun'}));
-        });
+    multiCompiler.hooks.done.tap('DoneHook', (result: webpack.Stats | webpack.compilation.MultiStats) => {
+        const stats = result.hasOwnProperty('stats') ? (result as webpack.compilation.MultiStats).stats : [result as webpack.Stats];
+        const message: BuildDoneMessage = {type: 'done', changed: [], errors: []};
+        const {components} = getBuildStatus();
+
+        stats.forEach((stat, index) => {
+            const component = path.relative(path.resolve(getRootDirectory(), 'dist'), stat.compilation.outputOptions.path);
+            const {errors} = components[index];
 
-        compiler.hooks.watchClose.tap('WatchClose', () => {
-            ws.send(JSON.stringify({type: 'watchClose'}));
+            if (errors.length > 0) {
+                message.errors.push({component, messages: errors.map(formatDiagnostic)});
+            } else if (stat.endTime! > lastBuildTime) {
+                // Within a multi-compiler, the stats of any components that weren't re-built are left as-is
+                message.changed.push(component);
+            }
         });
+        lastBuildTime = Date.now();
+
+        broadcast(message);
+    });
+
+    multiCompiler.hooks.invalid.tap('InvalidHook', () => {
+        broadcast({type: 'invalid'});
+    });
+
+    multiCompiler.hooks.run.tap('RunHook', () => {
+        broadcast({type: 'run'});
     });
+
+    multiCompiler.hooks.watchRun.tap('WatchRun', () => {
+        broadcast({type: 'watchRun'});
+    });
+
+    multiCompiler.hooks.watchClose.tap('WatchClose', () => {
+        broadcast({type: 'watchClose'});
+    });
+}
+
+function formatDiagnostic({message, file, line, column}: BuildDiagnostic): string {
+    if (file) {
+        return `${path.relative(getRootDirectory(), file)}${line ? `:${line}:${column || 0}` : ''}\n${message}`;
+    } else {
+        return message;
+    }
 }
@@ -5,6 +5,10 @@ import {ApplicationOption} from 'openfin/_v2/api/application/applicationOption';
 import {WindowOption} from 'openfin/_v2/api/window/windowOption';
 import {ConfigWithRules} from 'openfin-service-config';
 
+import {PlatformLayout, getSingleViewLayout} from '../utils/manifests';
+
+import {getPlatformApi, getViewApi} from './platform';
+
 export type Dictionary<T = string> = Record<string, T>;
 
 export interface Point<T = number> {
@@ -141,6 +145,109 @@ export interface AppData<C = unknown> extends WindowData {
     enableMesh?: boolean;
 }
 
+/**
+ * Higher-level abstraction of the options of a platform. Any fields inherited from `AppData` are applied to the
+ * platform's window.
+ *
+ * Any fields not specified will be filled-in with default values.
+ */
+export interface PlatformData<C = unknown> extends AppData<C> {
+    /**
+     * Arrangement of views within the platform's window. Defaults to a single view, with the URL given by `url` and
+     * `queryArgs`.
+     */
+    layout?: PlatformLayout;
+}
+
+/**
+ * Higher-level abstraction of the options of a platform window. The window is created within the platform of the app
+ * that creates it - either the calling app, or `parent`.
+ *
+ * Any fields not specified will be filled-in with default values.
+ */
+export interface PlatformWindowData extends WindowData {
+    /**
+     * Arrangement of views within the window. Defaults to a single view, with the URL given by `url` and `queryArgs`.
+     */
+    layout?: PlatformLayout;
+}
+
+/**
+ * Higher-level abstraction of the options of a platform view.
+ *
+ * Any fields not specified will be filled-in with default values.
+ */
+export interface ViewData {
+    /**
+     * Name of the view. If not specified, a random name will be generated.
+     */
+    id?: string;
+
+    /**
+     * URL of the view. Defaults to about:blank.
+     */
+    url?: string;
+
+    /**
+     * A set of query string arguments, to append to the end of `url`. See {@link WindowData.queryArgs}.
+     */
+    queryArgs?: Dictionary;
+
+    /**
+     * Platform window to add the view to. The view will be created by that window's platform.
+     *
+     * If not specified, the view will be created by the platform of the app that creates it (either the calling app, or
+     * `parent`), in a new window.
+     */
+    target?: Identity;
+
+    /**
+     * Not a property of the view - instead, this is the Identity of the window that we want to create the view.
+     *
+     * If not specified, the calling window will create the view directly.
+     */
+    parent?: Identity;
+}
+
+/**
+ * An application, window or view created by the spawn utilities. Platforms are included as applications.
+ */
+export interface SpawnedEntity {
+    type: 'application' | 'window' | 'view';
+    identity: Identity;
+
+    /**
+     * Identity of the application that created the entity, if it was created by another application on our behalf.
+     */
+    parent?: Identity;
+}
+
+/**
+ * An event that indicates a spawned entity has closed. See {@link trackSpawned}.
+ */
+interface CloseEvent {
+    emitter: {addListener(eventType: string, listener: (event: any) => void): Promise<unknown>};
+    eventType: string;
+
+    /**
+     * If specified, events for which this returns false are ignored.
+     */
+    predicate?: (event: any) => boolean;
+}
+
+/**
+ * Payload of a view event. Events that propagate from a view to its platform give the view's identity as `viewIdentity`.
+ */
+interface ViewEvent extends Identity {
+    viewIdentity?: Identity;
+}
+
+/**
+ * Every application, window and view created by this window that hasn't since closed - including those created by other
+ * applications, through their spawn channel.
+ */
+const spawned: SpawnedEntity[] = [];
+
 /**
  * Creates an IAB channel that is used to listen for app/window spawn requests from other windows/applications. A call
  * to this method is required for a window to be used as the `parent` arg in a call to `createApp` or `createWindow`.
@@ -152,36 +259,105 @@ export async function addSpawnListeners(): Promise<void> {
     const channel = await fin.InterApplicationBus.Channel.create(`spawn-${application.identity.uuid}`);
     channel.register('createApplication', async (options: AppData) => (await createApplication(options)).identity);
     channel.register('createWindow', async (options: WindowData) => (await createChildWindow(options)).identity);
+    channel.register('createPlatform', async (options: PlatformData) => (await createPlatformApplication(options)).identity);
+    channel.register('createPlatformWindow', async (options: PlatformWindowData) => (await createPlatformChildWindow(options)).identity);
+    channel.register('createView', async (options: ViewData) => createPlatformView(options));
+    channel.register('closeView', async ({uuid, name}: Identity) => {
+        await getPlatformApi().wrapSync({uuid}).closeView({uuid, name});
+        return {uuid, name};
+    });
 }
 
 export async function createApp(options: AppData): Promise<Application> {
-    const parent = options.parent;
-    const application = fin.Application.getCurrentSync();
+    const identity = await dispatchToParent('createApplication', options);
+    const app = identity ? fin.Application.wrapSync(identity) : await createApplication(options);
 
-    if (parent && parent.uuid !== application.identity.uuid) {
-        // Connect to parent app, and instruct it to create this application
-        const channel: ChannelClient = await fin.InterApplicationBus.Channel.connect(`spawn-${parent.uuid}`);
-        const identity: Identity = await channel.dispatch('createApplication', options);
-        return fin.Application.wrapSync(identity);
-    } else {
-        // Create the application ourselves
-        return createApplication(options);
-    }
+    trackSpawned('application', app.identity, [{emitter: app, eventType: 'closed'}], options.parent);
+    return app;
 }
 
 export async function createWindow(options: WindowData): Promise<_Window> {
-    const parent = options.parent;
-    const application = fin.Application.getCurrentSync();
+    const identity = await dispatchToParent('createWindow', options);
+    const window = identity ? fin.Window.wrapSync(identity) : await createChildWindow(options);
 
-    if (parent && parent.uuid !== application.identity.uuid) {
-        // Connect to parent app, and instruct it to create this window
-        const channel: ChannelClient = await fin.InterApplicationBus.Channel.connect(`spawn-${parent.uuid}`);
-        const identity: Identity = await channel.dispatch('createWindow', options);
-        return fin.Window.wrapSync(identity);
-    } else {
-        // Create the window ourselves
-        return createChildWindow(options);
-    }
+    trackSpawned('window', window.identity, [{emitter: window, eventType: 'closed'}], options.parent);
+    return window;
+}
+
+/**
+ * Starts a platform, containing a single window. The platform is returned as an application, as the Platform API isn't
+ * available in every context that the spawn utilities can be used from.
+ */
+export async function createPlatform(options: PlatformData): Promise<Application> {
+    const identity = await dispatchToParent('createPlatform', options);
+    const app = identity ? fin.Application.wrapSync(identity) : await createPlatformApplication(options);
+
+    trackSpawned('application', app.identity, [{emitter: app, eventType: 'closed'}], options.parent);
+    return app;
+}
+
+/**
+ * Creates a window within a platform. Must be called from within a platform, unless `parent` is given.
+ */
+export async function createPlatformWindow(options: PlatformWindowData): Promise<_Window> {
+    const identity = await dispatchToParent('createPlatformWindow', options);
+    const window = identity ? fin.Window.wrapSync(identity) : await createPlatformChildWindow(options);
+
+    trackSpawned('window', window.identity, [{emitter: window, eventType: 'closed'}], options.parent);
+    return window;
+}
+
+/**
+ * Creates a view within a platform. Must be called from within a platform, unless `target` or `parent` is given.
+ *
+ * @returns The identity of the view, as views can't be wrapped in every context that the spawn utilities can be used from
+ */
+export async function createView(options: ViewData): Promise<Identity> {
+    const identity = await dispatchToParent('createView', options) || await createPlatformView(options);
+    const viewApi = getViewApi();
+    const platform = fin.Application.wrapSync({uuid: identity.uuid});
+
+    // Where views can't be wrapped (such as when connected using the JS adapter), the platform's view events are used
+    const viewClosed: CloseEvent = viewApi
+        ? {emitter: viewApi.wrapSync(identity), eventType: 'destroyed'}
+        : {emitter: platform, eventType: 'view-destroyed', predicate: (event: ViewEvent) => isSameView(event.viewIdentity || event, identity)};
+
+    // Views also close along with their platform
+    trackSpawned('view', identity, [viewClosed, {emitter: platform, eventType: 'closed'}], options.parent);
+    return identity;
+}
+
+/**
+ * Returns every application, window and view created by this window, using the spawn utilities, that is still open.
+ */
+export function listSpawned(): SpawnedEntity[] {
+    return spawned.slice();
+}
+
+/**
+ * Closes every application, window and view created by this window, using the spawn utilities. Allows a demo or test
+ * to reset to a clean state.
+ *
+ * Views are closed first, then windows, then applications. Entities are force-closed, so close handlers won't prevent
+ * them from closing.
+ */
+export async function closeAllSpawned(): Promise<void> {
+    const entities = spawned.splice(0, spawned.length);
+    const views = entities.filter((entity) => entity.type === 'view');
+    const windows = entities.filter((entity) => entity.type === 'window');
+    const apps = entities.filter((entity) => entity.type === 'application');
+
+    // Views are closed by the app that created them, as the Platform API may not be available to this window
+    const closeView = async ({identity, parent}: SpawnedEntity) => {
+        if (!await dispatchToParent('closeView', {...identity, parent})) {
+            await getPlatformApi().wrapSync({uuid: identity.uuid}).closeView(identity);
+        }
+    };
+
+    // Entities may have closed since the registry was last updated
+    await Promise.all(views.map((view) => closeView(view).catch(() => {})));
+    await Promise.all(windows.map(({identity}) => fin.Window.wrapSync(identity).close(true).catch(() => {})));
+    await Promise.all(apps.map(({identity}) => fin.Application.wrapSync(identity).quit(true).catch(() => {})));
 }
 
 async function createApplication(options: Omit<AppData, 'parent'>): Promise<Application> {
@@ -209,44 +385,121 @@ async function createApplication(options: Omit<AppData, 'parent'>): Promise<Appl
         };
         return startApp(fin.Application.create(data));
     } else {
-        const queryOptions: Dictionary<string | number | boolean> = {
-            ...position as Required<typeof position>,
-            uuid,
-            name,
-            url,
-            state,
-            shortcutName: options.shortcutName || '',
-            defaultWidth: size.x,
-            defaultHeight: size.y,
-            frame: options.frame === undefined ? true : options.frame,
-            realmName: options.realm || '',
-            enableMesh: options.enableMesh || false,
-            runtime: options.runtime || await fin.System.getVersion(),
-            useService: options.useService !== undefined ? options.useService : true,
-            asar: options.asar !== undefined ? options.asar : false,
-            provider: options.provider || 'local',
-            config: options.config ? JSON.stringify(options.config) : ''
-        };
+        const manifest = await getManifestUrl(options, uuid);
+
+        return startApp(fin.Application.createFromManifest(manifest));
+    }
+}
 
-        let hostname = 'http://localhost:';
+async function createPlatformApplication(options: Omit<PlatformData, 'parent'>): Promise<Application> {
+    const uuid: string = options.id || `Platform-${Math.random().toString().substr(2, 4)}`;
+    const layout = options.layout || getSingleViewLayout(`${uuid}-view`, getUrl(options));
 
-        // This can be run in a window or node context. We need to grab the port number from either.
-        if (typeof window !== 'undefined') {
-            hostname += location.port;
-        } else {
-            const {getProjectConfig} = await import('../utils/getProjectConfig');
-            hostname += getProjectConfig().PORT;
-        }
+    if (options.type === 'programmatic') {
+        const platform = await getPlatformApi().start({uuid});
+        await createPlatformChildWindow({...options, id: `${uuid}-window`, layout}, platform.identity.uuid);
+    } else {
+        await getPlatformApi().startFromManifest(await getManifestUrl(options, uuid, {platform: true, layout: JSON.stringify(layout)}));
+    }
 
-        const manifest = `${hostname}/manifest?${
-            Object.keys(queryOptions)
-                .map((key) => {
-                    return `${key}=${encodeURIComponent(queryOptions[key].toString())}`;
-                })
-                .join('&')}`;
+    return fin.Application.wrapSync({uuid});
+}
 
-        return startApp(fin.Application.createFromManifest(manifest));
+async function createPlatformChildWindow(data: Omit<PlatformWindowData, 'parent'>, platformUuid?: string): Promise<_Window> {
+    const name: string = data.id || `Win-${Math.random().toString().substr(2, 4)}`;
+    const position = getWindowPosition(data);
+    const size = getWindowSize(data);
+    const layout = data.layout || getSingleViewLayout(`${name}-view`, getUrl(data));
+    const platform = platformUuid ? getPlatformApi().wrapSync({uuid: platformUuid}) : getPlatformApi().getCurrentSync();
+
+    return platform.createWindow({
+        ...position,
+        name,
+        frame: data.frame,
+        state: data.state || 'normal',
+        autoShow: true,
+        saveWindowState: false,
+        defaultWidth: size.x,
+        defaultHeight: size.y,
+        layout
+    });
+}
+
+async function createPlatformView(data: Omit<ViewData, 'parent'>): Promise<Identity> {
+    const name: string = data.id || `View-${Math.random().toString().substr(2, 4)}`;
+    const platform = data.target ? getPlatformApi().wrapSync({uuid: data.target.uuid}) : getPlatformApi().getCurrentSync();
+    const view = await platform.createView({name, url: getUrl(data)}, data.target);
+
+    return view.identity;
+}
+
+/**
+ * If `parent` is an application other than this one, asks that application to create an entity on our behalf, using
+ * its spawn channel.
+ *
+ * @param action Spawn channel action, as registered by {@link addSpawnListeners}
+ * @param options Options of the entity to create
+ * @returns The identity of the created entity, or null if the entity should instead be created by this application
+ */
+async function dispatchToParent(action: string, options: {parent?: Identity}): Promise<Identity | null> {
+    const parent = options.parent;
+    const application = fin.Application.getCurrentSync();
+
+    if (parent && parent.uuid !== application.identity.uuid) {
+        // Connect to parent app, and instruct it to create this entity
+        const channel: ChannelClient = await fin.InterApplicationBus.Channel.connect(`spawn-${parent.uuid}`);
+        return channel.dispatch(action, options);
+    } else {
+        return null;
+    }
+}
+
+/**
+ * Returns the URL of a manifest for the given app, generated by the local server.
+ *
+ * @param options Options of the application
+ * @param uuid UUID of the application
+ * @param extraArgs Any additional query args to pass to the server
+ */
+async function getManifestUrl(options: Omit<AppData, 'parent'>, uuid: string, extraArgs: Dictionary<string | boolean> = {}): Promise<string> {
+    const position = getWindowPosition(options);
+    const size = getWindowSize(options);
+    const queryOptions: Dictionary<string | number | boolean> = {
+        ...position as Required<typeof position>,
+        uuid,
+        name: options.name || uuid,
+        url: getUrl(options),
+        state: options.state || 'normal',
+        shortcutName: options.shortcutName || '',
+        defaultWidth: size.x,
+        defaultHeight: size.y,
+        frame: options.frame === undefined ? true : options.frame,
+        realmName: options.realm || '',
+        enableMesh: options.enableMesh || false,
+        runtime: options.runtime || await fin.System.getVersion(),
+        useService: options.useService !== undefined ? options.useService : true,
+        asar: options.asar !== undefined ? options.asar : false,
+        provider: options.provider || 'local',
+        config: options.config ? JSON.stringify(options.config) : '',
+        ...extraArgs
+    };
+
+    let hostname: string;
+
+    // This can be run in a window or node context. We need to grab the scheme and port number from either.
+    if (typeof window !== 'undefined') {
+        hostname = `${location.protocol}//localhost:${location.port}`;
+    } else {
+        const {getServerOrigin} = await import('../utils/url');
+        hostname = getServerOrigin();
     }
+
+    return `${hostname}/manifest?${
+        Object.keys(queryOptions)
+            .map((key) => {
+                return `${key}=${encodeURIComponent(queryOptions[key].toString())}`;
+            })
+            .join('&')}`;
 }
 
 async function createChildWindow(data: Omit<WindowData, 'parent'>): Promise<_Window> {
@@ -260,6 +513,32 @@ async function createChildWindow(data: Omit<WindowData, 'parent'>): Promise<_Win
     return fin.Window.create(options);
 }
 
+/**
+ * Adds an entity to the registry of spawned entities, removing it again once any of the given events are emitted.
+ */
+function trackSpawned(type: SpawnedEntity['type'], identity: Identity, closeEvents: CloseEvent[], parent?: Identity): void {
+    const record: SpawnedEntity = parent ? {type, identity: {...identity}, parent} : {type, identity: {...identity}};
+    const untrack = () => {
+        const index = spawned.indexOf(record);
+        if (index >= 0) {
+            spawned.splice(index, 1);
+        }
+    };
+
+    spawned.push(record);
+    closeEvents.forEach(({emitter, eventType, predicate}) => {
+        emitter.addListener(eventType, (event: any) => {
+            if (!predicate || predicate(event)) {
+                untrack();
+            }
+        }).catch(() => {});
+    });
+}
+
+function isSameView(a: Identity, b: Identity): boolean {
+    return a.uuid === b.uuid && a.name === b.name;
+}
+
 async function startApp(appPromise: Promise<Application>): Promise<Application> {
     const app = await appPromise;
     await app.run();
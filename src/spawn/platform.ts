@@ -0,0 +1,77 @@
+import {Identity} from 'openfin/_v2/main';
+import {_Window} from 'openfin/_v2/api/window/window';
+import {WindowOption} from 'openfin/_v2/api/window/windowOption';
+
+import {PlatformLayout} from '../utils/manifests';
+
+/**
+ * There are no typings available for the Platform API, within the versions of the OpenFin typings that we use. These
+ * are the parts of the API that are used by the spawn utilities.
+ */
+export interface PlatformApi {
+    start(options: PlatformOptions): Promise<Platform>;
+    startFromManifest(manifestUrl: string): Promise<Platform>;
+    getCurrentSync(): Platform;
+    wrapSync(identity: {uuid: string}): Platform;
+}
+
+export interface PlatformOptions {
+    uuid: string;
+    defaultWindowOptions?: Partial<WindowOption>;
+}
+
+export interface Platform {
+    identity: {uuid: string};
+
+    createWindow(options: PlatformWindowOptions): Promise<_Window>;
+    createView(options: ViewOptions, target?: Identity): Promise<View>;
+    closeView(identity: Identity): Promise<void>;
+    quit(): Promise<void>;
+}
+
+export interface PlatformWindowOptions extends Partial<WindowOption> {
+    layout?: PlatformLayout;
+}
+
+export interface ViewOptions {
+    name: string;
+    url: string;
+}
+
+export interface View {
+    identity: Required<Identity>;
+}
+
+/**
+ * The parts of the View API that are used by the spawn utilities. Like the Platform API, this has no typings within the
+ * versions of the OpenFin typings that we use.
+ */
+export interface ViewApi {
+    wrapSync(identity: Identity): ViewEmitter;
+}
+
+export interface ViewEmitter {
+    addListener(eventType: string, listener: (event: unknown) => void): Promise<unknown>;
+}
+
+/**
+ * Returns the Platform API. Requires a runtime that supports platforms, and isn't available when connected to a runtime
+ * using the JS adapter.
+ */
+export function getPlatformApi(): PlatformApi {
+    const api: PlatformApi | undefined = (fin as unknown as {Platform?: PlatformApi}).Platform;
+
+    if (!api) {
+        throw new Error('The Platform API isn\'t available. Platforms and views must be created from within an OpenFin window, on runtime 15 or later');
+    }
+
+    return api;
+}
+
+/**
+ * Returns the View API, or `null` if it isn't available. As with {@link getPlatformApi}, this requires a runtime that
+ * supports views, and isn't available when connected to a runtime using the JS adapter.
+ */
+export function getViewApi(): ViewApi | null {
+    return (fin as unknown as {View?: ViewApi}).View || null;
+}
@@ -0,0 +1,7 @@
+{
+    "$schema": "./node_modules/openfin-service-tooling/services.config.schema.json",
+    "NAME": "{{NAME}}",
+    "TITLE": "{{TITLE}}",
+    "PORT": {{PORT}},
+    "CDN_LOCATION": "{{CDN_LOCATION}}"
+}
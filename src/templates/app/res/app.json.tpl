@@ -0,0 +1,14 @@
+{
+    "startup_app": {
+        "uuid": "{{NAME}}",
+        "name": "{{TITLE}}",
+        "url": "{{CDN_LOCATION}}/index.html",
+        "autoShow": true,
+        "defaultWidth": 600,
+        "defaultHeight": 400
+    },
+    "runtime": {
+        "arguments": "",
+        "version": "stable"
+    }
+}
@@ -0,0 +1,14 @@
+<!DOCTYPE html>
+<html lang="en">
+
+    <head>
+        <meta charset="UTF-8">
+        <title>{{TITLE}}</title>
+    </head>
+
+    <body>
+        <h3 id="title">{{TITLE}}</h3>
+        <script src="main-bundle.js"></script>
+    </body>
+
+</html>
@@ -0,0 +1,12 @@
+{
+    "startup_app": {
+        "uuid": "{{NAME}}-test-app",
+        "name": "{{TITLE}} Test App",
+        "url": "{{CDN_LOCATION}}/index.html",
+        "autoShow": true
+    },
+    "runtime": {
+        "arguments": "",
+        "version": "stable"
+    }
+}
@@ -0,0 +1,5 @@
+import {getTitle} from './title';
+
+declare const PACKAGE_VERSION: string;
+
+document.getElementById('title')!.textContent = getTitle(PACKAGE_VERSION);
@@ -0,0 +1,8 @@
+/**
+ * Returns the text displayed within the main window of the application.
+ *
+ * @param version The version of the application
+ */
+export function getTitle(version: string): string {
+    return `{{TITLE}} v${version}`;
+}
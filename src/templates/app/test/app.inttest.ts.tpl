@@ -0,0 +1,10 @@
+import {getConnection} from 'openfin-service-tooling/testing/harness';
+
+describe('Application', () => {
+    it('Test app is running', async () => {
+        const fin = await getConnection();
+        const app = fin.Application.wrapSync({uuid: '{{NAME}}-test-app'});
+
+        await expect(app.isRunning()).resolves.toBe(true);
+    });
+});
@@ -0,0 +1,7 @@
+import {getTitle} from '../src/title';
+
+describe('Title', () => {
+    it('Includes the application version', () => {
+        expect(getTitle('1.2.3')).toEqual('{{TITLE}} v1.2.3');
+    });
+});
@@ -0,0 +1,11 @@
+const path = require('path');
+
+const {webpackTools} = require('openfin-service-tooling');
+
+const outputDir = path.resolve(__dirname, 'dist');
+
+module.exports = [
+    webpackTools.createConfig(outputDir, {
+        main: './src/index.ts'
+    }, undefined, webpackTools.manifestPlugin, webpackTools.versionPlugin)
+];
@@ -0,0 +1,5 @@
+node_modules
+dist
+hooks.js
+*.user.json
+.svc-tools
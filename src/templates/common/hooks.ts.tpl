@@ -0,0 +1,8 @@
+import {Hook, registerHook} from 'openfin-service-tooling/utils/allowHook';
+
+/**
+ * Project-specific customisations of svc-tools. See the `Hook` enum for the full list of available hooks.
+ *
+ * This file is compiled automatically whenever svc-tools is ran.
+ */
+registerHook(Hook.DEFAULT_ARGS, () => ({}));
@@ -0,0 +1,22 @@
+{
+    "name": "openfin-{{NAME}}",
+    "version": "0.1.0",
+    "description": "{{TITLE}}",
+    "private": true,
+    "scripts": {
+        "start": "svc-tools start",
+        "build": "svc-tools build",
+        "check": "svc-tools check",
+        "fix": "svc-tools fix",
+        "test:unit": "svc-tools test unit",
+        "test:int": "svc-tools test int"
+    },
+    "devDependencies": {
+        "@types/jest": "^24.0.15",
+        "@types/node": "^9.6.49",
+        "@types/openfin": "^43.0.1",
+        "hadouken-js-adapter": "^1.44.1",
+        "openfin-service-tooling": "^{{TOOLING_VERSION}}",
+        "typescript": "^3.8.3"
+    }
+}
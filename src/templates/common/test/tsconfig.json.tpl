@@ -0,0 +1,10 @@
+{
+    "extends": "../tsconfig.json",
+    "compilerOptions": {
+        "types": ["node", "jest", "openfin"]
+    },
+    "include": [
+        ".",
+        "../src"
+    ]
+}
@@ -0,0 +1,10 @@
+{
+    "extends": "./node_modules/openfin-service-tooling/tsconfig-services.json",
+    "compilerOptions": {
+        "outDir": "dist"
+    },
+    "include": [
+        "src",
+        "hooks.ts"
+    ]
+}
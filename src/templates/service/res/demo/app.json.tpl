@@ -0,0 +1,20 @@
+{
+    "startup_app": {
+        "uuid": "{{NAME}}-demo",
+        "name": "{{TITLE}} Demo",
+        "url": "{{CDN_LOCATION}}/index.html",
+        "autoShow": true,
+        "defaultWidth": 600,
+        "defaultHeight": 400
+    },
+    "services": [
+        {
+            "name": "{{NAME}}",
+            "manifestUrl": "{{CDN_LOCATION}}/app.json"
+        }
+    ],
+    "runtime": {
+        "arguments": "",
+        "version": "stable"
+    }
+}
@@ -0,0 +1,15 @@
+<!DOCTYPE html>
+<html lang="en">
+
+    <head>
+        <meta charset="UTF-8">
+        <title>{{TITLE}} Demo</title>
+    </head>
+
+    <body>
+        <h3>{{TITLE}} Demo</h3>
+        <p id="version"></p>
+        <script src="demo-bundle.js"></script>
+    </body>
+
+</html>
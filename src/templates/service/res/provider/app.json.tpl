@@ -0,0 +1,12 @@
+{
+    "startup_app": {
+        "uuid": "{{NAME}}-service",
+        "name": "{{TITLE}} Service",
+        "url": "{{CDN_LOCATION}}/provider.html",
+        "autoShow": false
+    },
+    "runtime": {
+        "arguments": "",
+        "version": "stable"
+    }
+}
@@ -0,0 +1,14 @@
+<!DOCTYPE html>
+<html lang="en">
+
+    <head>
+        <meta charset="UTF-8">
+        <title>{{TITLE}} Provider</title>
+        <script src="provider-bundle.js"></script>
+    </head>
+
+    <body>
+        <h3>{{TITLE}} Provider</h3>
+    </body>
+
+</html>
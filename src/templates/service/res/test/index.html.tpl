@@ -0,0 +1,13 @@
+<!DOCTYPE html>
+<html lang="en">
+
+    <head>
+        <meta charset="UTF-8">
+        <title>{{TITLE}} Test App</title>
+    </head>
+
+    <body>
+        <h3>{{TITLE}} Test App</h3>
+    </body>
+
+</html>
@@ -0,0 +1,18 @@
+{
+    "startup_app": {
+        "uuid": "{{NAME}}-test-app",
+        "name": "{{TITLE}} Test App",
+        "url": "{{CDN_LOCATION}}/index.html",
+        "autoShow": true
+    },
+    "services": [
+        {
+            "name": "{{NAME}}",
+            "manifestUrl": "{{CDN_LOCATION}}/app.json"
+        }
+    ],
+    "runtime": {
+        "arguments": "",
+        "version": "stable"
+    }
+}
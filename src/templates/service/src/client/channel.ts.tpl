@@ -0,0 +1,11 @@
+/**
+ * Name of the IAB channel that the provider creates, and that clients connect to.
+ */
+export const CHANNEL_NAME = 'of-{{NAME}}-service';
+
+/**
+ * Actions that the provider registers on the channel.
+ */
+export enum Action {
+    GET_VERSION = 'GET_VERSION'
+}
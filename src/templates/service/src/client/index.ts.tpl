@@ -0,0 +1,23 @@
+import {ChannelClient} from 'openfin/_v2/api/interappbus/channel/client';
+
+import {Action, CHANNEL_NAME} from './channel';
+
+declare const PACKAGE_VERSION: string;
+
+/**
+ * The version of the client library.
+ */
+export const VERSION: string = PACKAGE_VERSION;
+
+let channel: Promise<ChannelClient> | null = null;
+
+/**
+ * Returns the version of the service provider that this client is connected to.
+ */
+export async function getProviderVersion(): Promise<string> {
+    if (!channel) {
+        channel = fin.InterApplicationBus.Channel.connect(CHANNEL_NAME, {wait: true, payload: {version: VERSION}});
+    }
+
+    return (await channel).dispatch(Action.GET_VERSION);
+}
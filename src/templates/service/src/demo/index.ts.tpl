@@ -0,0 +1,10 @@
+import {getProviderVersion, VERSION} from '../client/index';
+
+async function main(): Promise<void> {
+    const output = document.getElementById('version')!;
+
+    output.textContent = `Client ${VERSION}, connecting to provider...`;
+    output.textContent = `Client ${VERSION}, provider ${await getProviderVersion()}`;
+}
+
+main().catch(console.error);
@@ -0,0 +1,12 @@
+import {Action, CHANNEL_NAME} from '../client/channel';
+
+declare const PACKAGE_VERSION: string;
+
+async function main(): Promise<void> {
+    const provider = await fin.InterApplicationBus.Channel.create(CHANNEL_NAME);
+
+    provider.register(Action.GET_VERSION, () => PACKAGE_VERSION);
+    console.log(`{{TITLE}} provider ${PACKAGE_VERSION} running`);
+}
+
+main().catch(console.error);
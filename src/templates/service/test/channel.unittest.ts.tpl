@@ -0,0 +1,7 @@
+import {CHANNEL_NAME} from '../src/client/channel';
+
+describe('Client channel', () => {
+    it('Channel name is derived from the service name', () => {
+        expect(CHANNEL_NAME).toEqual('of-{{NAME}}-service');
+    });
+});
@@ -0,0 +1,12 @@
+import {getConnection} from 'openfin-service-tooling/testing/harness';
+
+import {Action, CHANNEL_NAME} from '../src/client/channel';
+
+describe('Provider', () => {
+    it('Responds to version requests', async () => {
+        const fin = await getConnection();
+        const channel = await fin.InterApplicationBus.Channel.connect(CHANNEL_NAME);
+
+        await expect(channel.dispatch(Action.GET_VERSION)).resolves.toBeTruthy();
+    });
+});
@@ -0,0 +1,20 @@
+const path = require('path');
+
+const {webpackTools} = require('openfin-service-tooling');
+
+const outputDir = path.resolve(__dirname, 'dist');
+
+module.exports = [
+    webpackTools.createConfig(`${outputDir}/client`, './src/client/index.ts', {
+        minify: false,
+        isLibrary: true,
+        libraryName: '{{LIBRARY_NAME}}',
+        outputFilename: 'openfin-{{NAME}}'
+    }, webpackTools.versionPlugin),
+    webpackTools.createConfig(`${outputDir}/provider`, {
+        provider: './src/provider/index.ts'
+    }, undefined, webpackTools.manifestPlugin, webpackTools.versionPlugin),
+    webpackTools.createConfig(`${outputDir}/demo`, {
+        demo: './src/demo/index.ts'
+    }, undefined, webpackTools.versionPlugin)
+];
@@ -0,0 +1,227 @@
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+import {Fin} from 'hadouken-js-adapter';
+
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+import {JunitTestCase, addToJunitTestCase, escapeXml} from './junit';
+
+/**
+ * Directory that the artifacts of each test failure are written to, relative to the project root. Each failure is given
+ * its own sub-directory.
+ */
+export const ARTIFACTS_DIR = 'dist/test/artifacts';
+
+/**
+ * Name of the file, within the artifacts directory of a failure, that describes the failure and the windows that were
+ * open at the time.
+ */
+const FAILURE_FILE = 'failure.json';
+
+/**
+ * State of a single window, at the point that a test failed.
+ */
+export interface WindowArtifact {
+    uuid: string;
+    name: string;
+    bounds: {left: number; top: number; width: number; height: number};
+    state: string;
+    isShowing: boolean;
+    url: string | null;
+    title: string | null;
+
+    /**
+     * File name of the window's screenshot, within the artifacts directory of the failure. Null if the window couldn't be
+     * captured.
+     */
+    screenshot: string | null;
+
+    /**
+     * Reason that any of the above couldn't be captured.
+     */
+    error?: string;
+}
+
+/**
+ * The subset of the window details returned by `System.getAllWindows` that are included within the artifacts.
+ */
+interface WindowDetails {
+    uuid: string;
+    name: string;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    state: string;
+    isShowing: boolean;
+}
+
+/**
+ * `Window.capturePage` was added in version 2 of the JS adapter, replacing `Window.getSnapshot`. Either is used, depending
+ * on the version of the adapter installed within the project.
+ */
+interface CapturableWindow {
+    capturePage?(): Promise<string>;
+    getSnapshot?(): Promise<string>;
+}
+
+/**
+ * Contents of the `failure.json` file within the artifacts directory of each failure.
+ */
+export interface FailureArtifacts extends JunitTestCase {
+    /**
+     * Attempt of the test that failed. Will only be greater than 1 when running with `--retries`.
+     */
+    attempt: number;
+
+    /**
+     * Time of the failure, as an ISO date string.
+     */
+    date: string;
+
+    error: string;
+    windows: WindowArtifact[];
+
+    /**
+     * Reason that the windows couldn't be captured, if the runtime couldn't be queried at all.
+     */
+    captureError?: string;
+}
+
+/**
+ * Removes the artifacts of any previous test run.
+ */
+export async function clearFailureArtifacts(): Promise<void> {
+    await fs.remove(path.join(getRootDirectory(), ARTIFACTS_DIR));
+}
+
+/**
+ * Captures the state of every open window - identity, bounds, state, URL and a screenshot - and writes them to a new
+ * directory within {@link ARTIFACTS_DIR}. Failures to capture the windows are recorded within the artifacts, rather than
+ * being thrown.
+ *
+ * @param fin Connection to the runtime that the tests are running against
+ * @param failure Details of the failed test
+ * @returns Path to the directory that the artifacts were written to
+ */
+export async function captureFailureArtifacts(fin: Promise<Fin>, failure: Pick<FailureArtifacts, keyof JunitTestCase | 'attempt' | 'error'>): Promise<string> {
+    const outputDir = await createArtifactsDir(failure);
+    const artifacts: FailureArtifacts = {...failure, date: new Date().toISOString(), windows: []};
+
+    try {
+        const connection = await fin;
+        const apps = await connection.System.getAllWindows();
+        const windows = apps.reduce<WindowDetails[]>((result, app) => {
+            return result.concat([app.mainWindow, ...app.childWindows].map((window) => ({...window, uuid: app.uuid})));
+        }, []);
+
+        artifacts.windows = await Promise.all(windows.map((window) => captureWindow(connection, window, outputDir)));
+    } catch (error) {
+        artifacts.captureError = `${(error && error.message) || error}`;
+    }
+
+    await fs.outputJson(path.join(outputDir, FAILURE_FILE), artifacts, {spaces: 4});
+    return outputDir;
+}
+
+/**
+ * Adds links to the artifacts of each failure to the JUnit report, within the `<system-out>` of the failed test. Links
+ * use the `[[ATTACHMENT|<path>]]` format, which is understood by the Jenkins JUnit Attachments plugin.
+ *
+ * @param junitPath JUnit report of the test run
+ */
+export async function linkFailureArtifacts(junitPath: string): Promise<void> {
+    const artifactsDir = path.join(getRootDirectory(), ARTIFACTS_DIR);
+    const dirs = await fs.pathExists(artifactsDir) ? await fs.readdir(artifactsDir) : [];
+
+    if (dirs.length === 0 || !await fs.pathExists(junitPath)) {
+        return;
+    }
+
+    // Group the output of each test, as a test may have failed several times when running with `--retries`
+    const outputs = new Map<string, {failure: FailureArtifacts; lines: string[]}>();
+    for (const dir of dirs.sort()) {
+        const failure: FailureArtifacts = await fs.readJson(path.join(artifactsDir, dir, FAILURE_FILE));
+        const files = (await fs.readdir(path.join(artifactsDir, dir))).sort().map((file) => path.join(artifactsDir, dir, file));
+        const key = JSON.stringify([failure.testPath, ...failure.ancestorTitles, failure.title]);
+        const output = outputs.get(key) || {failure, lines: []};
+
+        output.lines.push(
+            `Artifacts of attempt ${failure.attempt} captured within ${path.relative(getRootDirectory(), path.join(artifactsDir, dir))}`,
+            ...files.map((file) => `[[ATTACHMENT|${file}]]`)
+        );
+        outputs.set(key, output);
+    }
+
+    let report = await fs.readFile(junitPath, 'utf8');
+    outputs.forEach(({failure, lines}) => {
+        report = addToJunitTestCase(report, failure, `  <system-out>${escapeXml(lines.join('\n'))}</system-out>\n    `, 'end');
+    });
+
+    await fs.writeFile(junitPath, report);
+}
+
+async function createArtifactsDir(failure: Pick<FailureArtifacts, keyof JunitTestCase | 'attempt'>): Promise<string> {
+    const fileName = path.basename(failure.testPath).split('.')[0];
+    const testName = [...failure.ancestorTitles, failure.title].join(' ');
+    const baseName = sanitize(`${fileName}.${testName}`).substr(0, 100) + (failure.attempt > 1 ? `.attempt-${failure.attempt}` : '');
+
+    // Test names aren't necessarily unique, so add a suffix if the directory already exists
+    let outputDir = path.join(getRootDirectory(), ARTIFACTS_DIR, baseName);
+    for (let i = 2; await fs.pathExists(outputDir); i++) {
+        outputDir = path.join(getRootDirectory(), ARTIFACTS_DIR, `${baseName}-${i}`);
+    }
+
+    await fs.mkdirp(outputDir);
+    return outputDir;
+}
+
+async function captureWindow(fin: Fin, window: WindowDetails, outputDir: string): Promise<WindowArtifact> {
+    const {uuid, name, left, top, width, height, state, isShowing} = window;
+    const artifact: WindowArtifact = {uuid, name, bounds: {left, top, width, height}, state, isShowing, url: null, title: null, screenshot: null};
+    const finWindow = fin.Window.wrapSync({uuid, name});
+    const errors: string[] = [];
+
+    try {
+        const info = await finWindow.getInfo();
+
+        artifact.url = info.url;
+        artifact.title = info.title;
+    } catch (error) {
+        errors.push(`Couldn't get window info: ${(error && error.message) || error}`);
+    }
+
+    try {
+        const data = await capturePage(finWindow);
+        const screenshot = sanitize(`${uuid}.${name}.png`);
+
+        await fs.writeFile(path.join(outputDir, screenshot), Buffer.from(data, 'base64'));
+        artifact.screenshot = screenshot;
+    } catch (error) {
+        errors.push(`Couldn't capture screenshot: ${(error && error.message) || error}`);
+    }
+
+    if (errors.length > 0) {
+        artifact.error = errors.join('\n');
+    }
+
+    return artifact;
+}
+
+/**
+ * Returns a screenshot of the window, as a base64-encoded PNG.
+ */
+function capturePage(finWindow: CapturableWindow): Promise<string> {
+    if (finWindow.capturePage) {
+        return finWindow.capturePage();
+    } else if (finWindow.getSnapshot) {
+        return finWindow.getSnapshot();
+    } else {
+        throw new Error('The installed version of hadouken-js-adapter supports neither Window.capturePage nor Window.getSnapshot');
+    }
+}
+
+function sanitize(fileName: string): string {
+    return fileName.replace(/[^\w.-]+/g, '_');
+}
@@ -0,0 +1,176 @@
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+import {JunitTestCase, addToJunitTestCase, escapeXml} from './junit';
+
+/**
+ * Directory that the attempts of each test are written to by the retry environment, relative to the project root.
+ */
+export const ATTEMPTS_DIR = 'dist/test/attempts';
+
+/**
+ * Location of the flaky test report, relative to the project root. The report is updated (rather than replaced) by each
+ * test run, so that it builds up a history of each flaky test.
+ */
+const FLAKY_REPORT_PATH = 'dist/test/flaky.json';
+
+/**
+ * Number of runs to keep within the history of each flaky test.
+ */
+const MAX_HISTORY = 20;
+
+export interface TestAttempt {
+    passed: boolean;
+
+    /**
+     * Error messages of a failed attempt.
+     */
+    errors: string[];
+}
+
+/**
+ * Every attempt of a single test, as recorded by the retry environment.
+ */
+export interface RecordedTest extends JunitTestCase {
+    attempts: TestAttempt[];
+}
+
+/**
+ * A test that has passed only on retry, within at least one test run.
+ */
+export interface FlakyTest {
+    /**
+     * Path to the test file, relative to the project root.
+     */
+    file: string;
+
+    /**
+     * Full name of the test, including any describe blocks.
+     */
+    name: string;
+
+    /**
+     * Number of runs within the history in which the test passed only on retry.
+     */
+    flakyRuns: number;
+
+    /**
+     * Outcome of the test within each run since it was first found to be flaky, oldest first.
+     */
+    history: FlakyTestRun[];
+}
+
+export interface FlakyTestRun {
+    /**
+     * Time of the run, as an ISO date string.
+     */
+    date: string;
+
+    attempts: number;
+    passed: boolean;
+
+    /**
+     * Error messages from each failed attempt.
+     */
+    errors: string[];
+}
+
+/**
+ * Removes the attempts recorded by any previous test run.
+ */
+export async function clearTestAttempts(): Promise<void> {
+    await fs.remove(path.join(getRootDirectory(), ATTEMPTS_DIR));
+}
+
+/**
+ * Reports on any tests that were retried within the current test run:
+ *
+ * - Each failed attempt is added to the test's entry within the JUnit report. Tests that eventually passed get a
+ *   `<flakyFailure>` for each failed attempt, and tests that failed every attempt get a `<rerunFailure>` for each attempt
+ *   before the final failure - following the convention used by Maven Surefire.
+ * - Tests that passed only on retry are added to `dist/test/flaky.json`, and the outcome of this run is added to the
+ *   history of every test within that report.
+ *
+ * @param junitPath JUnit report of the test run
+ */
+export async function reportRetries(junitPath: string): Promise<void> {
+    const tests = await readTestAttempts();
+    const flakyTests = tests.filter(({attempts}) => attempts.length > 1 && attempts[attempts.length - 1].passed);
+    const failedTests = tests.filter(({attempts}) => attempts.length > 1 && !attempts[attempts.length - 1].passed);
+
+    if (await fs.pathExists(junitPath)) {
+        await fs.writeFile(junitPath, addAttemptsToJunitReport(await fs.readFile(junitPath, 'utf8'), tests));
+    }
+    await updateFlakyReport(tests);
+
+    if (flakyTests.length > 0) {
+        console.log(`\n${flakyTests.length} test(s) passed only on retry, see ${FLAKY_REPORT_PATH}:`);
+        flakyTests.forEach((test) => console.log(`  - ${getTestName(test)} (${test.attempts.length} attempts)`));
+    }
+    if (failedTests.length > 0) {
+        console.log(`\n${failedTests.length} test(s) failed every attempt:`);
+        failedTests.forEach((test) => console.log(`  - ${getTestName(test)} (${test.attempts.length} attempts)`));
+    }
+}
+
+async function readTestAttempts(): Promise<RecordedTest[]> {
+    const attemptsDir = path.join(getRootDirectory(), ATTEMPTS_DIR);
+    const files = await fs.pathExists(attemptsDir) ? await fs.readdir(attemptsDir) : [];
+    const tests: RecordedTest[] = [];
+
+    for (const file of files) {
+        tests.push(...await fs.readJson(path.join(attemptsDir, file)));
+    }
+
+    return tests;
+}
+
+function addAttemptsToJunitReport(report: string, tests: RecordedTest[]): string {
+    return tests.filter(({attempts}) => attempts.length > 1).reduce((result, test) => {
+        // The final attempt of a failed test is already included within the report, as a <failure>
+        const passed = test.attempts[test.attempts.length - 1].passed;
+        const elements = test.attempts.slice(0, -1).map((attempt, index) => {
+            const tagName = passed ? 'flakyFailure' : 'rerunFailure';
+            const message = `Attempt ${index + 1} of ${test.attempts.length} failed`;
+
+            return `\n      <${tagName} message="${message}">${escapeXml(attempt.errors.join('\n'))}</${tagName}>`;
+        });
+
+        return addToJunitTestCase(result, test, elements.join(''), 'start');
+    }, report);
+}
+
+async function updateFlakyReport(tests: RecordedTest[]): Promise<void> {
+    const reportPath = path.join(getRootDirectory(), FLAKY_REPORT_PATH);
+    const report: FlakyTest[] = await fs.pathExists(reportPath) ? await fs.readJson(reportPath) : [];
+    const date = new Date().toISOString();
+
+    tests.forEach((test) => {
+        const file = path.relative(getRootDirectory(), test.testPath).replace(/\\/g, '/');
+        const name = [...test.ancestorTitles, test.title].join(' > ');
+        const {attempts} = test;
+        const passed = attempts[attempts.length - 1].passed;
+        let entry = report.find((existing) => existing.file === file && existing.name === name);
+
+        if (!entry && attempts.length > 1 && passed) {
+            entry = {file, name, flakyRuns: 0, history: []};
+            report.push(entry);
+        }
+
+        if (entry) {
+            const errors = attempts.filter((attempt) => !attempt.passed).map((attempt) => attempt.errors.join('\n'));
+
+            entry.history = [...entry.history, {date, attempts: attempts.length, passed, errors}].slice(-MAX_HISTORY);
+            entry.flakyRuns = entry.history.filter((run) => run.passed && run.attempts > 1).length;
+        }
+    });
+
+    await fs.outputJson(reportPath, report, {spaces: 4});
+}
+
+function getTestName(test: RecordedTest): string {
+    return `${path.relative(getRootDirectory(), test.testPath)}: ${[...test.ancestorTitles, test.title].join(' > ')}`;
+}
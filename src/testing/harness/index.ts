@@ -0,0 +1,205 @@
+// eslint-disable-next-line spaced-comment
+/// <reference types="jest" />
+import {connect, Fin} from 'hadouken-js-adapter';
+import {Application, Identity} from 'openfin/_v2/main';
+import {_Window} from 'openfin/_v2/api/window/window';
+
+import {AppData, WindowData, closeAllSpawned, createApp, createWindow} from '../../spawn';
+import {CLITestArguments} from '../../types';
+import {closeConnection} from '../../utils/connection';
+import {getProjectConfig} from '../../utils/getProjectConfig';
+import {withTimeout} from '../../utils/timeout';
+
+/**
+ * Default timeout of the `waitFor` helpers. Less than jest's default test timeout, so that a failed wait is reported
+ * with a more specific error than a test timeout.
+ */
+const DEFAULT_WAIT_TIMEOUT = 3000;
+
+/**
+ * Options for {@link waitForEvent} and {@link waitForCondition}.
+ */
+export interface WaitOptions {
+    /**
+     * How long to wait before rejecting, in milliseconds. Defaults to 3000.
+     */
+    timeout?: number;
+
+    /**
+     * Description of what is being waited for, included within the error message if the wait times out.
+     */
+    description?: string;
+}
+
+/**
+ * Options for {@link waitForEvent}.
+ */
+export interface WaitForEventOptions<T> extends WaitOptions {
+    /**
+     * If specified, events for which this returns false are ignored.
+     */
+    predicate?: (payload: T) => boolean;
+}
+
+/**
+ * Anything that emits OpenFin events, such as an application, window or `fin.System`.
+ */
+export interface EventTarget {
+    addListener(eventType: string, listener: (payload: any) => void): Promise<unknown>;
+    removeListener(eventType: string, listener: (payload: any) => void): Promise<unknown>;
+}
+
+let connection: Promise<Fin> | null = null;
+
+/**
+ * Returns a connection to the runtime that the integration tests are running against, as given by the `OF_PORT`
+ * environment variable. The connection is shared by every test within a test file, and is closed once the file's tests
+ * are complete.
+ *
+ * The connection is also made available as the global `fin`, so that the utilities within `spawn` can be used from
+ * tests. If the connection fails, the next call will try to connect again.
+ */
+export function getConnection(): Promise<Fin> {
+    if (!connection) {
+        const port = process.env.OF_PORT;
+
+        if (!port) {
+            return Promise.reject(new Error('OF_PORT isn\'t set. Integration tests should be run using "svc-tools test int"'));
+        }
+
+        const uuid = `test-runner-${getProjectConfig().NAME}-${process.pid}`;
+        connection = connect({address: `ws://localhost:${port}`, uuid}).then((fin) => {
+            Object.assign(global, {fin});
+            return fin;
+        }, (error) => {
+            // Allow later tests to retry, rather than each failing with the same error
+            connection = null;
+            throw error;
+        });
+    }
+
+    return connection;
+}
+
+/**
+ * Returns the args of the `svc-tools test` command that is running the tests.
+ */
+export function getTestArgs(): CLITestArguments {
+    const args = process.env.CLI_ARGS;
+
+    if (!args) {
+        throw new Error('CLI_ARGS isn\'t set. Integration tests should be run using "svc-tools test int"');
+    }
+
+    return JSON.parse(args);
+}
+
+/**
+ * Creates an application for the current test, using {@link createApp}. The application will be closed once the test
+ * is complete.
+ *
+ * @param appData Options of the application. Any options not specified are given default values.
+ */
+export async function useApp(appData: AppData = {}): Promise<Application> {
+    await getConnection();
+
+    return createApp(appData);
+}
+
+/**
+ * Creates a window for the current test, using {@link createWindow}. The window will be closed once the test is
+ * complete.
+ *
+ * Windows can't be created directly by the test runner's connection. The window will instead be created by `parent`,
+ * which must be an application that has called `addSpawnListeners`.
+ *
+ * @param windowData Options of the window. Any options not specified are given default values.
+ */
+export async function useWindow(windowData: WindowData & {parent: Identity}): Promise<_Window> {
+    await getConnection();
+
+    return createWindow(windowData);
+}
+
+/**
+ * Waits for an event to be emitted. To avoid missing the event, call this before performing the action that will
+ * trigger it, and await the result afterwards:
+ *
+ * ```ts
+ * const closed = waitForEvent(window, 'closed');
+ * await window.close();
+ * await closed;
+ * ```
+ *
+ * @param target Object that will emit the event
+ * @param eventType Type of event to wait for
+ * @param options Timeout of the wait, and an optional filter on the events
+ * @returns The payload of the event
+ */
+export async function waitForEvent<T = any>(target: EventTarget, eventType: string, options: WaitForEventOptions<T> = {}): Promise<T> {
+    const {timeout = DEFAULT_WAIT_TIMEOUT, description = `"${eventType}" event`, predicate} = options;
+    let listener: (payload: T) => void = () => {};
+
+    const event = new Promise<T>((resolve, reject) => {
+        listener = (payload: T) => {
+            if (!predicate || predicate(payload)) {
+                resolve(payload);
+            }
+        };
+        target.addListener(eventType, listener).catch(reject);
+    });
+
+    try {
+        return await withTimeout(event, timeout, () => Promise.reject(new Error(`Timed-out after ${timeout}ms waiting for ${description}`)));
+    } finally {
+        await target.removeListener(eventType, listener).catch(() => {});
+    }
+}
+
+/**
+ * Waits for a condition to become true, by repeatedly checking it.
+ *
+ * @param condition Function that returns (or resolves to) true once the condition is met
+ * @param options Timeout of the wait, and how often to check the condition
+ */
+export async function waitForCondition(condition: () => boolean | Promise<boolean>, options: WaitOptions & {interval?: number} = {}): Promise<void> {
+    const {timeout = DEFAULT_WAIT_TIMEOUT, description = 'condition', interval = 100} = options;
+    let timedOut = false;
+
+    const poll = async () => {
+        while (!timedOut && !await condition()) {
+            await new Promise((resolve) => setTimeout(resolve, interval));
+        }
+    };
+
+    await withTimeout(poll(), timeout, () => {
+        timedOut = true;
+        return Promise.reject(new Error(`Timed-out after ${timeout}ms waiting for ${description}`));
+    });
+}
+
+/**
+ * Closes every application, window, platform and view created using the spawn utilities during the current test -
+ * including any created by the code under test, rather than through {@link useApp} and {@link useWindow}. Called
+ * automatically after each test.
+ */
+async function teardownTest(): Promise<void> {
+    await closeAllSpawned();
+}
+
+async function disconnect(): Promise<void> {
+    if (connection) {
+        const fin = await connection.catch(() => null);
+
+        connection = null;
+        if (fin) {
+            await closeConnection(fin);
+        }
+    }
+}
+
+// Register teardown with jest, when imported by a test file
+if (typeof afterEach === 'function' && typeof afterAll === 'function') {
+    afterEach(teardownTest);
+    afterAll(disconnect);
+}
@@ -0,0 +1,194 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+import {connect, Fin} from 'hadouken-js-adapter';
+
+import {closeConnection} from '../../utils/connection';
+import {withTimeout} from '../../utils/timeout';
+import {captureFailureArtifacts} from '../artifacts';
+import {ATTEMPTS_DIR, RecordedTest} from '../flaky';
+
+/**
+ * Name of the environment variable that holds the number of times a failed test should be retried. Set by the test
+ * runner on each jest process, when running with `--retries`.
+ */
+export const RETRIES_ENV_VAR = 'TEST_RETRIES';
+
+/**
+ * The subset of jest's project config that is used by the environment.
+ */
+interface ProjectConfig {
+    rootDir: string;
+    testEnvironmentOptions: {baseEnvironment?: string; [key: string]: unknown};
+}
+
+/**
+ * The subset of a jest-circus describe block, as passed to `handleTestEvent`.
+ */
+interface CircusDescribeBlock {
+    name: string;
+    parent?: CircusDescribeBlock;
+}
+
+/**
+ * The subset of a jest-circus test, as passed to `handleTestEvent`.
+ */
+interface CircusTest {
+    name: string;
+    invocations: number;
+    errors: unknown[];
+    parent: CircusDescribeBlock;
+}
+
+interface CircusEvent {
+    name: string;
+    test?: CircusTest;
+}
+
+/**
+ * Jest test environment for integration tests. Adds the following to the environment that would otherwise be used:
+ *
+ * - When a test fails, captures the windows that are open on the test runtime. See {@link captureFailureArtifacts}. The
+ *   capture is taken once the test and its hooks have completed, so won't include any windows closed by `afterEach`.
+ * - When running with `--retries`, retries failed tests, and records the outcome of every attempt of every test.
+ *   Attempts are written to `dist/test/attempts`, one file per test file, for the test runner to include within the test
+ *   reports.
+ *
+ * Rather than replacing the project's environment, this environment extends it. The project's environment is passed in
+ * using the `baseEnvironment` test environment option. Requires the jest-circus test runner.
+ */
+export default class IntegrationEnvironment {
+    constructor(config: ProjectConfig, context: {testPath: string}) {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const BaseEnvironment = require(resolveBaseEnvironment(config));
+        const BaseClass = BaseEnvironment.default || BaseEnvironment;
+        const retries = parseInt(process.env[RETRIES_ENV_VAR] || '0');
+        const tests: RecordedTest[] = [];
+        const captures: Promise<void>[] = [];
+        let fin: Promise<Fin> | null = null;
+
+        // Connects to the test runtime the first time a test fails
+        const getRuntimeConnection = () => {
+            if (!fin) {
+                const port = process.env.OF_PORT;
+
+                fin = withTimeout(connect({address: `ws://localhost:${port}`, uuid: `test-artifacts-${process.pid}`}), 10000, () => {
+                    return Promise.reject(new Error(`Timed-out connecting to the runtime on port ${port}`));
+                });
+            }
+
+            return fin;
+        };
+
+        class Environment extends BaseClass {
+            constructor() {
+                super(config, context);
+
+                if (retries > 0) {
+                    // Equivalent to calling `jest.retryTimes` at the top of every test file
+                    this.global[Symbol.for('RETRY_TIMES')] = retries;
+                }
+            }
+
+            public async handleTestEvent(event: CircusEvent, state: unknown): Promise<void> {
+                if (super.handleTestEvent) {
+                    await super.handleTestEvent(event, state);
+                }
+
+                const {test} = event;
+
+                if (event.name === 'test_done' && test) {
+                    // Fired once per attempt of each test, after the test's hooks have run
+                    if (test.errors.length > 0 && process.env.OF_PORT) {
+                        captures.push(captureFailure(context.testPath, test, test.errors[0], getRuntimeConnection()));
+                    }
+                    if (retries > 0) {
+                        recordAttempt(tests, context.testPath, test);
+                    }
+                }
+            }
+
+            public async teardown(): Promise<void> {
+                await Promise.all(captures);
+                if (fin) {
+                    await fin.then(closeConnection, () => {});
+                }
+
+                if (retries > 0) {
+                    const fileName = `${crypto.createHash('sha256').update(context.testPath).digest('hex').substr(0, 16)}.json`;
+
+                    await fs.outputJson(path.join(config.rootDir, ATTEMPTS_DIR, fileName), tests, {spaces: 4});
+                }
+                await super.teardown();
+            }
+        }
+
+        return new Environment();
+    }
+}
+
+async function captureFailure(testPath: string, test: CircusTest, error: unknown, fin: Promise<Fin>): Promise<void> {
+    const {ancestorTitles, title} = getTestNames(test);
+
+    try {
+        const outputDir = await captureFailureArtifacts(fin, {testPath, ancestorTitles, title, attempt: test.invocations, error: formatError(error)});
+
+        console.log(`Artifacts of failed test "${[...ancestorTitles, title].join(' > ')}" written to ${outputDir}`);
+    } catch (e) {
+        console.warn(`Couldn't capture artifacts of failed test "${[...ancestorTitles, title].join(' > ')}"`, e);
+    }
+}
+
+function recordAttempt(tests: RecordedTest[], testPath: string, test: CircusTest): void {
+    const {ancestorTitles, title} = getTestNames(test);
+
+    let recorded = tests.find((existing) => existing.title === title && existing.ancestorTitles.join() === ancestorTitles.join());
+    if (!recorded) {
+        recorded = {testPath, ancestorTitles, title, attempts: []};
+        tests.push(recorded);
+    }
+
+    recorded.attempts.push({passed: test.errors.length === 0, errors: test.errors.map(formatError)});
+}
+
+function getTestNames(test: CircusTest): {ancestorTitles: string[]; title: string} {
+    const ancestorTitles: string[] = [];
+    for (let block: CircusDescribeBlock | undefined = test.parent; block && block.parent; block = block.parent) {
+        // Root describe block has no parent, and isn't included in test names
+        ancestorTitles.unshift(block.name);
+    }
+
+    return {ancestorTitles, title: test.name};
+}
+
+/**
+ * Circus stores errors either as-is, or as a tuple of the error and the stack at the point the test was defined.
+ */
+function formatError(error: unknown): string {
+    const cause = Array.isArray(error) ? (error[0] || error[1]) : error;
+    const message = (cause && cause.message) || `${cause}`;
+
+    // Remove any terminal colors added by `expect`
+    // eslint-disable-next-line no-control-regex
+    return message.replace(/\u001b\[\d+m/g, '');
+}
+
+/**
+ * Resolves the module of the project's test environment, in the same way as jest. Names such as "node" are resolved to
+ * "jest-environment-node".
+ */
+function resolveBaseEnvironment(config: ProjectConfig): string {
+    const name = (config.testEnvironmentOptions.baseEnvironment || 'jsdom').replace('<rootDir>', config.rootDir);
+    const paths = [config.rootDir, __dirname];
+
+    for (const candidate of [`jest-environment-${name}`, name]) {
+        try {
+            return require.resolve(candidate, {paths});
+        } catch (e) {
+            // Try next candidate
+        }
+    }
+
+    throw new Error(`Couldn't find test environment "${name}"`);
+}
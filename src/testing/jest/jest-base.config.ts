@@ -4,8 +4,13 @@ import {existsSync} from 'fs';
 import {getRootDirectory} from '../../utils/getRootDirectory';
 import {getJsonFileSync} from '../../utils/getJsonFile';
 import {JestMode} from '../../types';
+import {getJunitClassName, getJunitTestName} from '../junit';
+
+import {SHARD_COUNT_ENV_VAR} from './shardSequencer';
 
 export function createConfig(testType: JestMode) {
+    const customConfig: {testEnvironment?: string; testEnvironmentOptions?: object} = getCustomJestConfig(testType);
+
     return {
         rootDir: getRootDirectory(),
         testURL: 'http://localhost/',
@@ -38,30 +43,44 @@ export function createConfig(testType: JestMode) {
                 'jest-junit', {
                     'outputDirectory': '<rootDir>/dist/test',
                     'outputName': `results-${testType}.xml`,
-                    'classNameTemplate': (vars: any) => {
-                        const filePathTokens = vars.filepath.split('\\');
-
-                        let fileName = filePathTokens[filePathTokens.length - 1];
-                        fileName = fileName.split('.')[0];
-                        filePathTokens[filePathTokens.length - 1] = fileName;
-
-                        return `${testType}.${filePathTokens.join('.')}`;
-                    },
-                    'titleTemplate': (vars: any) => {
-                        let title;
-                        if (vars.classname) {
-                            title = `${vars.classname} > ${vars.title}`;
-                        } else {
-                            title = vars.title;
-                        }
-
-                        return title.replace(/\./g, '•');
-                    },
+                    'classNameTemplate': (vars: any) => getJunitClassName(testType, vars.filepath),
+                    'titleTemplate': (vars: any) => getJunitTestName(vars.classname, vars.title),
                     'ancestorSeparator': ' > '
                 }
             ]
         ],
-        ...getCustomJestConfig(testType)};
+        ...getShardConfig(),
+        ...customConfig,
+        ...getIntegrationConfig(testType, customConfig)};
+}
+
+/**
+ * When running as one shard of a sharded test run, restricts the tests to those belonging to the shard.
+ */
+function getShardConfig() {
+    if (process.env[SHARD_COUNT_ENV_VAR]) {
+        return {testSequencer: join(__dirname, 'shardSequencer.js')};
+    } else {
+        return {};
+    }
+}
+
+/**
+ * Runs integration tests within {@link IntegrationEnvironment}. This wraps the environment that would otherwise be used,
+ * in order to capture failures and retry failed tests.
+ */
+function getIntegrationConfig(testType: JestMode, customConfig: {testEnvironment?: string; testEnvironmentOptions?: object}) {
+    if (testType === 'int') {
+        return {
+            testEnvironment: join(__dirname, 'integrationEnvironment.js'),
+            testEnvironmentOptions: {
+                ...customConfig.testEnvironmentOptions,
+                baseEnvironment: customConfig.testEnvironment || 'jsdom'
+            }
+        };
+    } else {
+        return {};
+    }
 }
 
 /**
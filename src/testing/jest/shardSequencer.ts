@@ -0,0 +1,35 @@
+/**
+ * Names of the environment variables that hold the (1-based) index of the current shard, and the total number of shards.
+ * Set by the test runner on each jest process, when running with `--shards`.
+ */
+export const SHARD_ENV_VAR = 'TEST_SHARD';
+export const SHARD_COUNT_ENV_VAR = 'TEST_SHARD_COUNT';
+
+/**
+ * The subset of jest's `Test` type that is used by the sequencer.
+ */
+interface Test {
+    path: string;
+}
+
+/**
+ * Jest test sequencer that runs only the subset of test files that belong to the current shard.
+ *
+ * Files are sorted by path and then dealt out to each shard in turn, so that every shard (each of which runs in a
+ * separate jest process) agrees on which files it should run, without needing to communicate.
+ */
+export default class ShardSequencer {
+    public sort(tests: Test[]): Test[] {
+        const shard = parseInt(process.env[SHARD_ENV_VAR] || '1');
+        const shardCount = parseInt(process.env[SHARD_COUNT_ENV_VAR] || '1');
+
+        return tests
+            .slice()
+            .sort((a, b) => a.path.localeCompare(b.path))
+            .filter((test, index) => index % shardCount === shard - 1);
+    }
+
+    public cacheResults(): void {
+        // Test durations aren't used for sharding, so there is nothing to cache
+    }
+}
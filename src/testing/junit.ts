@@ -0,0 +1,153 @@
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {JestMode} from '../types';
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+/**
+ * Totals within the root `<testsuites>` element of a JUnit report.
+ */
+interface JunitTotals {
+    tests: number;
+    failures: number;
+    errors: number;
+    time: number;
+}
+
+/**
+ * Identifies a single test within a JUnit report of the project's integration tests.
+ */
+export interface JunitTestCase {
+    /**
+     * Absolute path to the test file.
+     */
+    testPath: string;
+
+    /**
+     * Titles of the describe blocks that contain the test, outermost first.
+     */
+    ancestorTitles: string[];
+
+    title: string;
+}
+
+/**
+ * Combines several JUnit reports (as written by jest-junit) into a single report.
+ *
+ * The test suites of each report are concatenated, and the test counts of the root element are summed. The overall time
+ * is that of the slowest report, as the reports are expected to come from test runs that ran in parallel.
+ *
+ * @param inputPaths Reports to merge. Any reports that don't exist are skipped, with a warning.
+ * @param outputPath Location to write the merged report to
+ */
+export async function mergeJunitReports(inputPaths: string[], outputPath: string): Promise<void> {
+    const totals: JunitTotals = {tests: 0, failures: 0, errors: 0, time: 0};
+    const suites: string[] = [];
+    let name = 'jest tests';
+
+    for (const inputPath of inputPaths) {
+        if (!await fs.pathExists(inputPath)) {
+            console.warn(`Test report ${inputPath} wasn't found, and won't be included in ${outputPath}`);
+            continue;
+        }
+
+        // Root element will be self-closing if the report contains no suites
+        const report = await fs.readFile(inputPath, 'utf8');
+        const match = /<testsuites\b([^>]*?)(?:\/>|>([\s\S]*)<\/testsuites>)/.exec(report);
+
+        if (!match) {
+            throw new Error(`${inputPath} isn't a valid JUnit report`);
+        }
+
+        const attributes = parseAttributes(match[1]);
+        totals.tests += parseInt(attributes.tests) || 0;
+        totals.failures += parseInt(attributes.failures) || 0;
+        totals.errors += parseInt(attributes.errors) || 0;
+        totals.time = Math.max(totals.time, parseFloat(attributes.time) || 0);
+        name = attributes.name || name;
+
+        if (match[2] && match[2].trim()) {
+            suites.push(match[2].trim());
+        }
+    }
+
+    const rootAttributes = `name="${name}" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" time="${totals.time}"`;
+    const body = suites.length > 0 ? `\n  ${suites.join('\n  ')}\n` : '\n';
+
+    await fs.outputFile(outputPath, `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites ${rootAttributes}>${body}</testsuites>\n`);
+}
+
+/**
+ * Returns the `classname` of a test within the JUnit report, which is derived from the path of the test file.
+ *
+ * @param testType Type of tests being run
+ * @param filePath Path of the test file, relative to the project root
+ */
+export function getJunitClassName(testType: JestMode, filePath: string): string {
+    const filePathTokens = filePath.split('\\');
+
+    let fileName = filePathTokens[filePathTokens.length - 1];
+    fileName = fileName.split('.')[0];
+    filePathTokens[filePathTokens.length - 1] = fileName;
+
+    return `${testType}.${filePathTokens.join('.')}`;
+}
+
+/**
+ * Returns the `name` of a test within the JUnit report.
+ *
+ * @param describeTitles Titles of the describe blocks that contain the test, separated by ' > '
+ * @param title Title of the test
+ */
+export function getJunitTestName(describeTitles: string, title: string): string {
+    return (describeTitles ? `${describeTitles} > ${title}` : title).replace(/\./g, '•');
+}
+
+/**
+ * Adds XML elements to the `<testcase>` element of a test, within a JUnit report of the project's integration tests.
+ * The report is returned unchanged if the test isn't within the report.
+ *
+ * @param report Contents of the JUnit report
+ * @param testCase Test to add the elements to
+ * @param elements XML to add
+ * @param position Whether to add the elements before or after any existing content of the `<testcase>` element
+ */
+export function addToJunitTestCase(report: string, testCase: JunitTestCase, elements: string, position: 'start' | 'end'): string {
+    const className = getJunitClassName('int', path.relative(getRootDirectory(), testCase.testPath));
+    const testName = getJunitTestName(testCase.ancestorTitles.join(' > '), testCase.title);
+    const start = report.indexOf(`<testcase classname="${escapeXml(className)}" name="${escapeXml(testName)}"`);
+
+    if (start < 0) {
+        return report;
+    }
+
+    // jest-junit never writes self-closing testcase elements
+    const insertAt = position === 'start' ? report.indexOf('>', start) + 1 : report.indexOf('</testcase>', start);
+
+    return report.slice(0, insertAt) + elements + report.slice(insertAt);
+}
+
+/**
+ * Escapes a value, for use as either the text content or an attribute value of an XML element.
+ */
+export function escapeXml(value: string): string {
+    const entities: {[char: string]: string} = {'&': '&amp;', '"': '&quot;', '\'': '&apos;', '<': '&lt;', '>': '&gt;'};
+
+    return value.replace(/[&"'<>]/g, (char) => entities[char]);
+}
+
+/**
+ * Parses the attributes of an XML element. Values are returned as they appear within the XML, without un-escaping.
+ */
+function parseAttributes(attributes: string): {[name: string]: string} {
+    const result: {[name: string]: string} = {};
+    const regex = /([\w:-]+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(attributes))) {
+        result[match[1]] = match[2];
+    }
+
+    return result;
+}
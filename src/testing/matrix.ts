@@ -0,0 +1,147 @@
+import * as path from 'path';
+
+import * as execa from 'execa';
+import * as fs from 'fs-extra';
+
+import {getJsonFile} from '../utils/getJsonFile';
+import {getRootDirectory} from '../utils/getRootDirectory';
+import {exitProcess, trackChildProcess} from '../utils/shutdown';
+
+/**
+ * The test command args that can be varied within a test matrix, and the type of value each accepts.
+ */
+const MATRIX_AXES = {
+    runtime: 'string',
+    providerVersion: 'string',
+    asar: 'boolean',
+    mode: 'string'
+};
+
+export type MatrixAxis = keyof typeof MATRIX_AXES;
+
+/**
+ * Contents of a test matrix file, such as `test/matrix.json`. Lists the values to test for each axis. Every combination
+ * of these values will be tested.
+ *
+ * ```json
+ * {
+ *     "runtime": ["stable", "beta"],
+ *     "providerVersion": ["local", "stable"],
+ *     "asar": [true, false]
+ * }
+ * ```
+ */
+export type TestMatrix = {[K in MatrixAxis]?: (string | boolean)[]};
+
+/**
+ * A single combination of values, with one value for each axis of the matrix.
+ */
+export type MatrixCombination = {[K in MatrixAxis]?: string | boolean};
+
+/**
+ * Location of the test matrix, relative to the project root, if `--matrix` is used without specifying a file.
+ */
+export const DEFAULT_MATRIX_PATH = 'test/matrix.json';
+
+/**
+ * Runs the integration tests once for each combination within a test matrix, then outputs a pass/fail grid.
+ *
+ * Each combination is run as a separate `svc-tools test int` process, with the args of the current process plus the
+ * args of that combination - so that each run goes through the usual server and runtime setup. The JUnit report of
+ * each run is saved as `dist/test/results-int.<combination>.xml`, with the combination used as the name of the report.
+ *
+ * Exits the process once complete, with a non-zero exit code if any combination failed.
+ *
+ * @param matrixPath Path to a test matrix file, relative to the project root
+ */
+export async function runTestMatrix(matrixPath: string): Promise<void> {
+    const combinations = getCombinations(await readTestMatrix(matrixPath));
+    const reportDir = path.join(getRootDirectory(), 'dist/test');
+    const report = path.join(reportDir, 'results-int.xml');
+    const results: {combination: MatrixCombination; passed: boolean}[] = [];
+
+    for (const combination of combinations) {
+        const label = getLabel(combination, ', ');
+
+        console.log(`\nRunning integration tests (${results.length + 1}/${combinations.length}): ${label}\n`);
+        await fs.remove(report);
+
+        const child = execa(process.execPath, [process.argv[1], ...getChildArgs(combination)], {
+            stdio: 'inherit',
+            reject: false,
+            env: {JEST_SUITE_NAME: `int (${label})`}
+        });
+        trackChildProcess(`Tests for ${label}`, child);
+
+        const {code} = await child;
+        results.push({combination, passed: code === 0});
+
+        if (await fs.pathExists(report)) {
+            await fs.move(report, path.join(reportDir, `results-int.${getLabel(combination, '.').replace(/[^\w.=-]/g, '_')}.xml`), {overwrite: true});
+        }
+    }
+
+    const axes = Object.keys(combinations[0]) as MatrixAxis[];
+    const rows = [
+        [...axes, 'result'],
+        ...results.map(({combination, passed}) => [...axes.map((axis) => `${combination[axis]}`), passed ? 'PASS' : 'FAIL'])
+    ];
+    const widths = rows[0].map((heading, column) => Math.max(...rows.map((row) => row[column].length)));
+
+    console.log(`\nTest matrix results:\n\n${rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trim()).join('\n')}\n`);
+    await exitProcess(results.every((result) => result.passed) ? 0 : 1);
+}
+
+async function readTestMatrix(matrixPath: string): Promise<TestMatrix> {
+    const matrix = await getJsonFile<{[axis: string]: unknown}>(path.resolve(getRootDirectory(), matrixPath));
+
+    Object.keys(matrix).forEach((axis) => {
+        const values = matrix[axis];
+
+        if (!MATRIX_AXES.hasOwnProperty(axis)) {
+            throw new Error(`Invalid axis "${axis}" within ${matrixPath}. Options: ${Object.keys(MATRIX_AXES).join(' | ')}`);
+        } else if (!Array.isArray(values) || values.length === 0) {
+            throw new Error(`Axis "${axis}" within ${matrixPath} must be a non-empty array`);
+        } else if (values.some((value) => typeof value !== MATRIX_AXES[axis as MatrixAxis])) {
+            throw new Error(`Axis "${axis}" within ${matrixPath} must only contain ${MATRIX_AXES[axis as MatrixAxis]} values`);
+        }
+    });
+
+    if (Object.keys(matrix).length === 0) {
+        throw new Error(`${matrixPath} doesn't contain any axes`);
+    }
+
+    return matrix as TestMatrix;
+}
+
+/**
+ * Returns every combination of the values within a test matrix. Axes vary in the order they appear in the matrix, with
+ * the last axis varying fastest.
+ */
+export function getCombinations(matrix: TestMatrix): MatrixCombination[] {
+    return (Object.keys(matrix) as MatrixAxis[]).reduce<MatrixCombination[]>((combinations, axis) => {
+        return combinations.reduce<MatrixCombination[]>((result, combination) => {
+            return result.concat(matrix[axis]!.map((value) => ({...combination, [axis]: value})));
+        }, []);
+    }, [{}]);
+}
+
+function getLabel(combination: MatrixCombination, separator: string): string {
+    return Object.keys(combination).map((axis) => `${axis}=${combination[axis as MatrixAxis]}`).join(separator);
+}
+
+/**
+ * Args for the child process that runs a single combination. Any `--matrix` arg is removed from the args of the current
+ * process, and the values of the combination are added to the end - where they will override any existing values.
+ */
+export function getChildArgs(combination: MatrixCombination): string[] {
+    const args = process.argv.slice(2);
+    const matrixIndex = args.findIndex((arg) => arg === '--matrix' || arg.startsWith('--matrix='));
+
+    if (matrixIndex >= 0) {
+        const hasValue = args[matrixIndex] === '--matrix' && args[matrixIndex + 1] && !args[matrixIndex + 1].startsWith('-');
+        args.splice(matrixIndex, hasValue ? 2 : 1);
+    }
+
+    return [...args, ...Object.keys(combination).map((axis) => [`--${axis}`, `${combination[axis as MatrixAxis]}`]).reduce((a, b) => a.concat(b), [])];
+}
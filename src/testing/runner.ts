@@ -1,38 +1,31 @@
 import * as path from 'path';
-import * as os from 'os';
 
 import * as execa from 'execa';
-import {launch} from 'hadouken-js-adapter';
+import * as fs from 'fs-extra';
 
+import {getLauncher} from '../launcher';
 import {createServer, startServer, createDefaultMiddleware} from '../server/server';
 import {CLITestArguments} from '../types';
 import {Hook, allowHook} from '../utils/allowHook';
 import {getModuleRoot} from '../utils/getModuleRoot';
-import {getProjectConfig} from '../utils/getProjectConfig';
+import {getRootDirectory} from '../utils/getRootDirectory';
 import {prepareRuntime} from '../utils/runtime';
+import {exitProcess, trackChildProcess, trackResource} from '../utils/shutdown';
 import {withTimeout} from '../utils/timeout';
+import {getServerOrigin} from '../utils/url';
+import {getBuildStatus} from '../webpack/buildStatus';
 
-let port: number;
-let success: boolean = false;
-
-const cleanup = () => {
-    if (/^win/.exec(os.platform())) {
-        const cmd = 'taskkill /F /IM openfin.exe /T';
-        execa.shellSync(cmd);
-    } else {
-        const cmd = `lsof -n -i4TCP:${port} | grep LISTEN | awk '{ print $2 }' | xargs kill`;
-        execa.shellSync(cmd);
-    }
-};
-
-const exit = () => {
-    process.exit(success ? 0 : 1);
-};
+import {clearFailureArtifacts, linkFailureArtifacts} from './artifacts';
+import {clearTestAttempts, reportRetries} from './flaky';
+import {RETRIES_ENV_VAR} from './jest/integrationEnvironment';
+import {SHARD_COUNT_ENV_VAR, SHARD_ENV_VAR} from './jest/shardSequencer';
+import {mergeJunitReports} from './junit';
 
 const run = (processName: string, args?: any[], execaOptions?: execa.Options) => {
     const p = execa(processName, args, execaOptions);
     p.stdout.pipe(process.stdout);
     p.stderr.pipe(process.stderr);
+    trackChildProcess(processName, p);
     return p;
 };
 
@@ -48,43 +41,110 @@ export function runIntegrationTests(customJestArgs: string[], cliArgs: CLITestAr
     createServer()
         .then(async (app) => {
             await allowHook(Hook.TEST_MIDDLEWARE)(app);
-            return createDefaultMiddleware(app, cliArgs);
+            await createDefaultMiddleware(app, cliArgs);
+
+            // Don't run tests against a broken build
+            if (getBuildStatus().state === 'failed') {
+                throw new Error('Build failed, see output above');
+            }
+
+            return app;
         })
         .then(startServer)
         .then(async () => {
-            const manifestUrl = `http://localhost:${getProjectConfig().PORT}/test/test-app-main.json`;
-
             await prepareRuntime(cliArgs);
 
-            console.log('Starting test app');
-            const startupTimeoutMillis = 2 * 60 * 1000;
-            port = await withTimeout(launch({manifestUrl}), startupTimeoutMillis, () => {
-                throw new Error(`Test app didn't start after ${startupTimeoutMillis / 1000} seconds`);
-            });
-            console.log(`Openfin running on port ${port}`);
+            // Each shard gets its own test app, running within a separate runtime
+            const shardCount = cliArgs.shards || 1;
+            const ports: number[] = [];
+            for (let shard = 1; shard <= shardCount; shard++) {
+                ports.push(await launchTestApp(shardCount > 1 ? shard : undefined));
+            }
 
-            return port;
+            return ports;
         })
         .catch((error) => {
             console.error(error);
             throw new Error();
         })
-        .then((OF_PORT) => run('jest', jestArgs, {env: {
-            OF_PORT: (OF_PORT as number).toString(),
-            CLI_ARGS: JSON.stringify(cliArgs)
-        }}))
-        .then((res) => {
-            success = !res.failed;
+        .then(async (ports) => {
+            const retries = cliArgs.retries || 0;
+            const env = {CLI_ARGS: JSON.stringify(cliArgs), [RETRIES_ENV_VAR]: retries.toString()};
+            const report = path.join(getRootDirectory(), 'dist/test/results-int.xml');
+            let passed: boolean;
+
+            await Promise.all([clearTestAttempts(), clearFailureArtifacts()]);
+            if (ports.length > 1) {
+                passed = await runShards(jestArgs, env, ports);
+            } else {
+                passed = await run('jest', jestArgs, {env: {...env, OF_PORT: ports[0].toString()}}).then((res) => !res.failed, () => false);
+            }
+
+            if (retries > 0) {
+                await reportRetries(report);
+            }
+            await linkFailureArtifacts(report);
+
+            return passed;
         })
-        .then(cleanup)
-        .catch(cleanup)
-        .then(exit)
-        .catch(exit);
+        .then((passed) => {
+            // Tears down the test apps, server and any other resources before exiting
+            exitProcess(passed ? 0 : 1);
+        }, () => {
+            exitProcess(1);
+        });
+}
+
+/**
+ * Launches the project's test app, returning the port of the runtime it was launched on.
+ *
+ * @param shard Index of the shard that the app will be used by, if running a sharded test run
+ */
+async function launchTestApp(shard?: number): Promise<number> {
+    const manifestUrl = `${getServerOrigin()}/test/test-app-main.json${shard ? `?shard=${shard}` : ''}`;
+
+    console.log(shard ? `Starting test app for shard ${shard}` : 'Starting test app');
+    const startupTimeoutMillis = 2 * 60 * 1000;
+    const port = await withTimeout(getLauncher().launch(manifestUrl), startupTimeoutMillis, () => {
+        throw new Error(`Test app didn't start after ${startupTimeoutMillis / 1000} seconds`);
+    });
+    console.log(`Openfin running on port ${port}`);
+    trackResource(`Test app runtime (port ${port})`, 'runtime', () => getLauncher().shutdown(port));
+
+    return port;
+}
+
+/**
+ * Runs a separate jest process for each shard, in parallel. Test files are split between the shards by
+ * {@link ShardSequencer}, and the JUnit report of each shard is merged into a single `results-int.xml`.
+ *
+ * @param jestArgs Args to pass to every jest process
+ * @param env Environment variables to set on every jest process
+ * @param ports Port of each shard's runtime
+ * @returns Whether every shard passed
+ */
+async function runShards(jestArgs: string[], env: {[key: string]: string}, ports: number[]): Promise<boolean> {
+    const reportDir = path.join(getRootDirectory(), 'dist/test');
+    const reports = ports.map((port, index) => path.join(reportDir, `results-int.shard-${index + 1}.xml`));
+
+    // Shards will have no tests if there are more shards than test files
+    const results = await Promise.all(ports.map((port, index) => run('jest', [...jestArgs, '--passWithNoTests'], {env: {
+        ...env,
+        OF_PORT: port.toString(),
+        [SHARD_ENV_VAR]: (index + 1).toString(),
+        [SHARD_COUNT_ENV_VAR]: ports.length.toString(),
+        JEST_JUNIT_OUTPUT_NAME: path.basename(reports[index])
+    }}).then((res) => !res.failed, () => false)));
+
+    await mergeJunitReports(reports, path.join(reportDir, 'results-int.xml'));
+    await Promise.all(reports.map((report) => fs.remove(report)));
+
+    return results.every((passed) => passed);
 }
 
 export function runUnitTests(customJestArgs: string[]) {
     function onComplete(res: any) {
-        process.exit((res.failed === true) ? 1 : 0);
+        exitProcess((res.failed === true) ? 1 : 0);
     }
     const jestArgs = customJestArgs.concat([
         '--config',
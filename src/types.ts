@@ -59,10 +59,155 @@ export interface CLIArguments {
      * Run the demo in a platform window.
      */
     platform: boolean;
+
+    /**
+     * Reloads any open windows whenever the bundle they were loaded from is re-built, and shows an overlay within each
+     * window if a build fails.
+     *
+     * Has no effect when using '--static', as there will be no builds to watch.
+     */
+    reload: boolean;
+
+    /**
+     * Serves the project over HTTPS. Equivalent to setting `HTTPS` within project config, see the config docs for how
+     * the certificate is chosen.
+     */
+    https: boolean;
+
+    /**
+     * Overrides the port of the local server. Either a port number, or "auto" to use the first free port - starting with
+     * the port within project config.
+     *
+     * Allows several instances of the local server to run at once, such as when running two projects side-by-side. The
+     * port is used everywhere that `PORT` from project config would be, including the version number of any custom runtime.
+     */
+    port: string;
 }
 
 export interface BuildCommandArgs {
     mode: WebpackMode;
+
+    /**
+     * Keeps webpack running after the initial build, and rebuilds any components whose source files change.
+     */
+    watch: boolean;
+
+    /**
+     * Creates an ASAR of the provider after each successful build. Can only be used if RUNTIME_INJECTABLE is defined in
+     * project config.
+     */
+    asar: boolean;
+}
+
+export interface ReleaseCommandArgs {
+    /**
+     * Name of the target to publish the release to. If not specified, the release is created but not published.
+     */
+    publish: string;
+
+    /**
+     * Destination to publish to. Interpretation of this value is specific to each publish target - for the built-in
+     * "local" target, this is a directory path.
+     */
+    dest: string;
+}
+
+export interface ImportCommandArgs {
+    /**
+     * If the "stable" and "staging" manifests of the mirror should be replaced with those from the imported release.
+     * Can be disabled when importing an archived build, to leave the channels pointing at the current version.
+     */
+    aliases: boolean;
+}
+
+/**
+ * The subset of the start command's arguments that affect how a manifest is served, as used by `svc-tools manifest`.
+ */
+export type ManifestCommandArgs = Pick<CLIArguments, 'providerVersion' | 'asar' | 'runtime' | 'platform'>;
+
+/**
+ * A versioned set of files that is ready to be uploaded to the CDN, as produced by `svc-tools release`.
+ */
+export interface Release {
+    /**
+     * The NAME of the project.
+     */
+    name: string;
+
+    /**
+     * The version number of the release, as specified in `package.json` (or the `VERSION` environment variable).
+     */
+    version: string;
+
+    /**
+     * Absolute path to the root of the release. The layout of this directory mirrors the layout of the CDN.
+     */
+    directory: string;
+
+    /**
+     * All files within the release, with paths relative to `directory`.
+     */
+    files: ReleaseFile[];
+}
+
+export interface ReleaseFile {
+    path: string;
+    size: number;
+    sha256: string;
+}
+
+/**
+ * A location that releases can be published to. Additional targets can be registered using the `PUBLISH_TARGETS` hook.
+ */
+export interface PublishTarget {
+    /**
+     * Copies all files within `release` to the given destination.
+     *
+     * @param release The release to publish
+     * @param destination Target-specific destination string, as passed to `svc-tools release --dest`
+     */
+    publish(release: Release, destination: string): Promise<void>;
+}
+
+/**
+ * Starts applications on the OpenFin runtime, on behalf of the `start` and `test` commands.
+ *
+ * The built-in "adapter" launcher uses the real runtime, and "fake" validates and records each launch without starting
+ * a runtime. Additional launchers can be registered using the `LAUNCHERS` hook, and are selected using `--launcher`.
+ */
+export interface Launcher {
+    /**
+     * Launches the application defined by a manifest.
+     *
+     * @param manifestUrl URL of the manifest to launch
+     * @returns The port of the runtime that the application is running on
+     */
+    launch(manifestUrl: string): Promise<number>;
+
+    /**
+     * Launches the application defined by a manifest, and waits for an application to close.
+     *
+     * @param manifestUrl URL of the manifest to launch
+     * @param uuid The application to wait for. May differ from the launched application, such as when waiting for a service
+     * provider to exit.
+     * @returns A promise that resolves once the application with the given UUID has closed
+     */
+    launchAndWait(manifestUrl: string, uuid: string): Promise<void>;
+
+    /**
+     * Ensures that the given runtime is installed.
+     *
+     * @param version Runtime version number or release channel
+     * @returns The version number of the runtime, which will differ from `version` if it was a release channel
+     */
+    installRuntime(version: string): Promise<string>;
+
+    /**
+     * Closes any runtimes started by this launcher.
+     *
+     * @param port The port returned by `launch`
+     */
+    shutdown(port: number): Promise<void>;
 }
 
 /**
@@ -91,6 +236,24 @@ export interface CLITestArguments extends CLIArguments {
      */
     noColor?: boolean;
 
+    /**
+     * Number of test apps to run integration tests against in parallel. Each test app runs in its own runtime, and test
+     * files are split between them.
+     */
+    shards?: number;
+
+    /**
+     * Runs integration tests once for each combination of the values within a test matrix file. Either the path to the
+     * file, or `true` to use `test/matrix.json`.
+     */
+    matrix?: string | boolean;
+
+    /**
+     * Number of times to retry each failed integration test. Tests that pass only on retry are recorded within
+     * `dist/test/flaky.json`.
+     */
+    retries?: number;
+
     /**
      * Any extra arguments which will be passed on to Jest/runner but not processed by any methods of this service.
      *
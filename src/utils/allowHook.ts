@@ -4,7 +4,7 @@ import * as path from 'path';
 import * as execa from 'execa';
 import * as express from 'express';
 
-import {CLIArguments} from '../types';
+import {CLIArguments, Launcher, PublishTarget} from '../types';
 
 import {getRootDirectory} from './getRootDirectory';
 
@@ -32,13 +32,31 @@ export enum Hook {
      * When using this hook, the help text in `npm start --help` will update accordingly, to show the new default
      * values for each option.
      */
-    DEFAULT_ARGS = 'DEFAULT_ARGS'
+    DEFAULT_ARGS = 'DEFAULT_ARGS',
+
+    /**
+     * Hook to add custom publish targets to the `release` command.
+     *
+     * Should return a map of target names to targets. A target with the same name as a built-in target will replace the
+     * built-in target.
+     */
+    PUBLISH_TARGETS = 'PUBLISH_TARGETS',
+
+    /**
+     * Hook to add custom launchers, which can then be selected using `--launcher <name>`.
+     *
+     * Should return a map of launcher names to launchers. A launcher with the same name as a built-in launcher will replace
+     * the built-in launcher.
+     */
+    LAUNCHERS = 'LAUNCHERS'
 }
 
 export interface HooksAPI {
     [Hook.APP_MIDDLEWARE]: (app: express.Express, args: CLIArguments) => void | Promise<void>;
     [Hook.DEFAULT_ARGS]: () => Partial<CLIArguments>;
     [Hook.TEST_MIDDLEWARE]: (app: express.Express) => void | Promise<void>;
+    [Hook.PUBLISH_TARGETS]: () => {[name: string]: PublishTarget};
+    [Hook.LAUNCHERS]: () => {[name: string]: Launcher};
 }
 
 export function loadHooks(): void {
@@ -0,0 +1,14 @@
+import {Fin} from 'hadouken-js-adapter';
+
+/**
+ * Closes a connection to the runtime that was made using the JS adapter.
+ *
+ * The adapter doesn't provide a public API for closing a connection, so this reaches into the adapter's transport. Any
+ * other code that needs to close a connection should use this function, so that there is only one place to update if
+ * the adapter's internals change.
+ *
+ * @param fin Connection returned by the adapter's `connect` function
+ */
+export async function closeConnection(fin: Fin): Promise<void> {
+    await fin['wire'].wire.shutdown();
+}
@@ -5,9 +5,9 @@ import {CLIArguments} from '../types';
 import {getProjectConfig} from './getProjectConfig';
 import {getJsonFileSync} from './getJsonFile';
 import {getProviderPath, getProviderUrl} from './manifest';
-import {ClassicManifest, PlatformManifest, ServiceDeclaration} from './manifests';
+import {ClassicManifest, PlatformLayout, PlatformManifest, ServiceDeclaration, getSingleViewLayout} from './manifests';
 import {isRuntimeInstalled, mapRuntimeVersion, resolveRuntimeVersion} from './runtime';
-import {replaceUrlParams} from './url';
+import {getServerOrigin, replaceUrlParams} from './url';
 
 let providerRuntime: string;
 
@@ -42,24 +42,52 @@ export enum RewriteContext {
  */
 type StartupAppWithInjection = ClassicManifest['startup_app'] & {[key: string]: any};
 
+/**
+ * A single change made to a manifest by the tooling, see {@link getManifest}.
+ */
+export interface ManifestTransform {
+    /**
+     * Dot-separated path to the value that was changed. An empty string indicates that the whole manifest was replaced.
+     */
+    path: string;
+
+    /**
+     * Value before the transform was applied. Will be undefined if the value was added by the transform.
+     */
+    from?: unknown;
+
+    /**
+     * Value after the transform was applied. Will be undefined if the value was removed by the transform.
+     */
+    to?: unknown;
+
+    /**
+     * Why the tooling made this change, including the CLI arg or config option responsible (where applicable).
+     */
+    reason: string;
+}
+
 /**
  * Reads the given application manifest, and transforms it given the current project config and CLI args.
  *
  * @param configPath Path to an app.json file, must be a local file not a URL
  * @param context Determines how CDN urls are handled, see {@link RewriteContext}
  * @param args The subset of CLI args that require manifest overrides, these will be applied to any manifests processed by this middleware
+ * @param transforms Optional array, that will have a {@link ManifestTransform} added for each change made to the manifest
  */
 export async function getManifest(
     configPath: string,
     context: RewriteContext,
-    args: Pick<Partial<CLIArguments>, 'providerVersion' | 'asar' | 'runtime'> = {}
+    args: Pick<Partial<CLIArguments>, 'providerVersion' | 'asar' | 'runtime'> = {},
+    transforms: ManifestTransform[] = []
 ): Promise<ClassicManifest> {
     const {providerVersion, asar, runtime} = {providerVersion: 'default', asar: false, runtime: '', ...args};
-    const {PORT, NAME, CDN_LOCATION, IS_SERVICE, RUNTIME_INJECTABLE} = getProjectConfig();
+    const {NAME, CDN_LOCATION, IS_SERVICE, RUNTIME_INJECTABLE} = getProjectConfig();
     let runtimeVersion = runtime;
+    let runtimeReason = `Overridden by "--runtime ${runtime}"`;
 
     const component = IS_SERVICE ? `/${configPath.split('/')[0]}` : '';  // client, provider or demo
-    const baseUrl = context === RewriteContext.DEBUG ? `http://localhost:${PORT}${component}` : CDN_LOCATION;
+    const baseUrl = context === RewriteContext.DEBUG ? `${getServerOrigin()}${component}` : CDN_LOCATION;
     const config: ClassicManifest | void = getJsonFileSync<ClassicManifest>(path.resolve('res', configPath));
 
     if (!config || !config.startup_app) {
@@ -74,11 +102,13 @@ export async function getManifest(
         // Get required runtime version (from either CLI or manifest), and resolve any release channels
         runtimeVersion = runtimeVersion || config.runtime.version;
         runtimeVersion = await resolveRuntimeVersion(runtimeVersion);
+        runtimeReason = `${runtime ? `Overridden by "--runtime ${runtime}", and` : 'Runtime'} resolved to a version number for use with "--asar"`;
 
         // Need to tweak the version if there's a "--runtime" override, or this is the same runtime as the provider
         if (runtime || runtimeVersion === getProviderRuntime()) {
             // Will need to run on a custom runtime version for ASAR to contain the latest provider code
             runtimeVersion = mapRuntimeVersion(runtimeVersion);
+            runtimeReason = 'Mapped to a copy of the runtime that contains the ASAR of the local provider ("--asar")';
 
             // Warn if runtime isn't installed
             if (!isRuntimeInstalled(runtime)) {
@@ -88,47 +118,88 @@ export async function getManifest(
     }
 
     // Edit manifest
+    const urlReason = context === RewriteContext.DEBUG
+        ? `CDN_LOCATION is mapped to the local server (${baseUrl}), and any templates are evaluated`
+        : 'Templates are evaluated, to give the deployed URL';
     if (startupApp.url) {
         // Replace startup app with HTML served locally
-        startupApp.url = replaceUrlParams(startupApp.url.replace(CDN_LOCATION, baseUrl));
+        const url = replaceUrlParams(startupApp.url.replace(CDN_LOCATION, baseUrl));
+        recordTransform(transforms, 'startup_app.url', startupApp.url, url, urlReason);
+        startupApp.url = url;
     }
     if (startupApp.icon) {
-        startupApp.icon = replaceUrlParams(startupApp.icon.replace(CDN_LOCATION, baseUrl));
+        const icon = replaceUrlParams(startupApp.icon.replace(CDN_LOCATION, baseUrl));
+        recordTransform(transforms, 'startup_app.icon', startupApp.icon, icon, urlReason);
+        startupApp.icon = icon;
     }
     if (shortcut && shortcut.icon) {
-        shortcut.icon = replaceUrlParams(shortcut.icon.replace(CDN_LOCATION, baseUrl));
+        const icon = replaceUrlParams(shortcut.icon.replace(CDN_LOCATION, baseUrl));
+        recordTransform(transforms, 'shortcut.icon', shortcut.icon, icon, urlReason);
+        shortcut.icon = icon;
     }
     if (serviceDefinition) {
+        const serviceIndex = config.services!.indexOf(serviceDefinition);
+
         if (asar) {
             if (!RUNTIME_INJECTABLE) {
                 throw new Error('"--asar" can only be used if the RUNTIME_INJECTABLE config option is set within services.config.json');
             }
 
             // Replace service declaration with '<NAME>Api' flag
-            annotateAppWithService(startupApp, serviceDefinition, providerVersion);
+            annotateAppWithService(startupApp, serviceDefinition, providerVersion, transforms);
 
+            const asarReason = 'Service is injected by the runtime ("--asar"), rather than started by the RVM';
             if (config.services!.length === 1) {
+                recordTransform(transforms, 'services', config.services, undefined, asarReason);
                 delete config.services;
             } else {
+                recordTransform(transforms, `services.${serviceIndex}`, serviceDefinition, undefined, asarReason);
                 config.services = config.services!.filter((service) => service.name !== NAME);
             }
         } else {
             // Replace provider manifest URL with the requested version
-            serviceDefinition.manifestUrl = getProviderUrl(providerVersion, serviceDefinition.manifestUrl);
+            const manifestUrl = getProviderUrl(providerVersion, serviceDefinition.manifestUrl);
+            recordTransform(
+                transforms,
+                `services.${serviceIndex}.manifestUrl`,
+                serviceDefinition.manifestUrl,
+                manifestUrl,
+                `Uses the "${providerVersion}" version of the provider ("--providerVersion")`
+            );
+            serviceDefinition.manifestUrl = manifestUrl;
         }
     }
     if (runtimeVersion) {
         // Replace runtime version with one provided.
+        recordTransform(transforms, 'runtime.version', config.runtime.version, runtimeVersion, runtimeReason);
         config.runtime.version = runtimeVersion;
     }
 
     return config;
 }
 
+/**
+ * Adds a {@link ManifestTransform} to the given list, if the value was changed.
+ *
+ * @param transforms List of transforms applied to the manifest so far
+ * @param valuePath Dot-separated path to the value within the manifest
+ * @param from Value before the transform
+ * @param to Value after the transform
+ * @param reason Why the value was changed
+ */
+export function recordTransform(transforms: ManifestTransform[], valuePath: string, from: unknown, to: unknown, reason: string): void {
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+        transforms.push({path: valuePath, from, to, reason});
+    }
+}
+
 /**
  * Convert a Classic manifest into a Platform manifest.
+ *
+ * @param manifest Manifest to convert
+ * @param layout Layout of the platform's window. Defaults to a single view, showing the URL of the manifest's startup app.
  */
-export function getPlatformManifest(manifest: ClassicManifest): PlatformManifest {
+export function getPlatformManifest(manifest: ClassicManifest, layout?: PlatformLayout): PlatformManifest {
     const {uuid, name, url, icon = ''} = manifest.startup_app;
 
     const platformConfig: PlatformManifest = {
@@ -148,23 +219,7 @@ export function getPlatformManifest(manifest: ClassicManifest): PlatformManifest
                     defaultWidth: manifest.startup_app.defaultWidth ?? 600,
                     defaultHeight: manifest.startup_app.defaultHeight ?? 600,
                     autoShow: manifest.startup_app.autoShow ?? true,
-                    layout: {
-                        content: [
-                            {
-                                type: 'stack',
-                                content: [
-                                    {
-                                        type: 'component',
-                                        componentName: 'view',
-                                        componentState: {
-                                            name,
-                                            url
-                                        }
-                                    }
-                                ]
-                            }
-                        ]
-                    }
+                    layout: layout || getSingleViewLayout(name, url)
                 }
             ]
         },
@@ -176,16 +231,33 @@ export function getPlatformManifest(manifest: ClassicManifest): PlatformManifest
     return platformConfig;
 }
 
-export function annotateAppWithService(application: ClassicManifest['startup_app'], service: ServiceDeclaration, providerVersion: string): void {
+export function annotateAppWithService(
+    application: ClassicManifest['startup_app'],
+    service: ServiceDeclaration,
+    providerVersion: string,
+    transforms: ManifestTransform[] = []
+): void {
     const {NAME} = getProjectConfig();
     const injectableApp: StartupAppWithInjection = application;
+    const reason = 'Replaces the service declaration, as the service is injected by the runtime ("--asar")';
 
+    recordTransform(transforms, `startup_app.${NAME}Api`, injectableApp[`${NAME}Api`], true, reason);
     injectableApp[`${NAME}Api`] = true;
     if (service.config) {
+        recordTransform(transforms, `startup_app.${NAME}Config`, injectableApp[`${NAME}Config`], service.config, reason);
         injectableApp[`${NAME}Config`] = service.config;
     }
     if (!['default', 'stable'].includes(providerVersion)) {
-        injectableApp[`${NAME}Manifest`] = getProviderUrl(providerVersion, service.manifestUrl);
+        const manifestUrl = getProviderUrl(providerVersion, service.manifestUrl);
+
+        recordTransform(
+            transforms,
+            `startup_app.${NAME}Manifest`,
+            injectableApp[`${NAME}Manifest`],
+            manifestUrl,
+            `Uses the "${providerVersion}" version of the provider ("--providerVersion")`
+        );
+        injectableApp[`${NAME}Manifest`] = manifestUrl;
     }
 }
 
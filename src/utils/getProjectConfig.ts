@@ -1,7 +1,10 @@
 import {existsSync, readFileSync} from 'fs';
 import {join} from 'path';
 
+import {getJsonFileSync} from './getJsonFile';
+import {getModuleRoot} from './getModuleRoot';
 import {getRootDirectory} from './getRootDirectory';
+import {JSONSchema, validateSchema} from './jsonSchema';
 
 /**
  * Shape of the configuration file which is implemented in an extending project.
@@ -52,6 +55,48 @@ interface ConfigFile {
      * This is the manifest that is launched when running `npm start`.
      */
     MANIFEST?: string;
+
+    /**
+     * Path to a local directory (relative to the project root) that mirrors the contents of the CDN. When set, the
+     * local server will serve this directory at the same path as `CDN_LOCATION`, and the "stable", "staging" and
+     * "x.y.z" provider versions will be loaded from the local server rather than the CDN.
+     *
+     * The mirror uses the same layout as the output of the `release` command, and can be populated using the
+     * `import-release` command (or `release --publish mirror`).
+     */
+    CDN_MIRROR?: string;
+
+    /**
+     * Serves the project over HTTPS rather than HTTP. Required by projects that use APIs that are only available within
+     * a secure context. Can also be enabled for a single run, using the `--https` CLI arg.
+     *
+     * The certificate is read from `HTTPS_KEY` and `HTTPS_CERT` if both are set. Otherwise, a self-signed certificate for
+     * "localhost" is generated and cached within the project's `.svc-tools` directory.
+     */
+    HTTPS?: boolean;
+
+    /**
+     * Path to the private key (in PEM format) used by the local server when `HTTPS` is enabled. Relative to the project
+     * root.
+     */
+    HTTPS_KEY?: string;
+
+    /**
+     * Path to the certificate (in PEM format) used by the local server when `HTTPS` is enabled. Relative to the project
+     * root.
+     */
+    HTTPS_CERT?: string;
+
+    /**
+     * Other services that should be run locally, alongside this project. Maps the `NAME` of each service to either:
+     * - The port of that service's local server, for services that are being run using `svc-tools start`
+     * - The path to a checkout of that service (relative to the project root), for services that have been built using
+     *   `svc-tools build`
+     *
+     * Each service is made available through the local server of this project, and any manifests served by the local
+     * server will use these local services in place of the versions on the CDN.
+     */
+    SERVICES?: {[name: string]: number | string};
 }
 
 export interface Config extends ConfigFile {
@@ -87,10 +132,42 @@ const CONFIG_FILE_PATH_SERVICE = './services.config.json';
  */
 const CONFIG_FILE_PATH_PROJECT = './project.config.json';
 
-let config: Config;
+/**
+ * Filename of the published JSON schema for {@link ConfigFile}, relative to the root of this module.
+ */
+const CONFIG_SCHEMA_FILENAME = 'services.config.schema.json';
+
+/**
+ * Name of the environment variable that holds the active config profile.
+ *
+ * The profile is stored within the environment (rather than in-memory) so that it is inherited by any child processes
+ * started by the tooling, such as webpack builds and jest runs.
+ */
+const CONFIG_PROFILE_ENV_VAR = 'CONFIG_PROFILE';
+
+/**
+ * Name of the environment variable that holds any config overrides set by CLI args, as a JSON object. Stored within the
+ * environment for the same reason as {@link CONFIG_PROFILE_ENV_VAR}.
+ */
+const CONFIG_OVERRIDES_ENV_VAR = 'CONFIG_OVERRIDES';
+
+/**
+ * Names that can't be used as a config profile, as they would clash with the other files that sit alongside the config.
+ */
+const RESERVED_PROFILE_NAMES = ['config', 'user', 'schema'];
+
+let config: Config | null = null;
+let configSources: {[key: string]: string} = {};
 
 /**
  * Returns the config json for the extending project.
+ *
+ * Config is built-up from several layers, with each layer overriding any values from the layers before it:
+ * 1. The project config file (`services.config.json` or `project.config.json`)
+ * 2. The config file for the active profile, if any (e.g. `services.ci.json`), see {@link setConfigProfile}
+ * 3. The user-specific config file (`services.user.json` or `project.user.json`)
+ * 4. Environment variables
+ * 5. Overrides from CLI args, see {@link overrideProjectConfig}
  */
 export function getProjectConfig<T extends Config = Config>(): Readonly<T> {
     if (config) {
@@ -110,54 +187,172 @@ export function getProjectConfig<T extends Config = Config>(): Readonly<T> {
         throw new Error(`Config file not found in project root.  Please check either ${CONFIG_FILE_PATH_SERVICE} or ${CONFIG_FILE_PATH_PROJECT} exists.`);
     }
 
-    // Parse config
-    try {
-        config = JSON.parse(readFileSync(configPath, 'utf8'));
-    } catch (e) {
-        throw new Error(`Error parsing ${configPath}, check JSON is valid`);
-    }
+    // Parse config, and check that all properties are present and of the correct type
+    const schema = getConfigSchema(configPath);
+    const overrideSchema = {...schema, required: []};
+    const newConfig: Config = readConfigLayer(configPath, schema);
+    const sources: {[key: string]: string} = {};
+    recordSources(sources, newConfig, configPath);
 
-    // Check for required properties
-    const missingProperties = ['NAME', 'TITLE', 'PORT', 'CDN_LOCATION'].filter((prop) => {
-        return !config.hasOwnProperty(prop);
-    });
-    if (missingProperties.length > 0) {
-        throw new Error(`Couldn't find one or more required properties in config file: ${missingProperties.join(', ')} (${configPath})`);
+    // Apply any profile-specific overrides
+    const profile = getConfigProfile();
+    if (profile) {
+        const profileConfigPath: string = configPath.replace('.config.', `.${profile}.`);
+        if (!existsSync(profileConfigPath)) {
+            throw new Error(`Config profile '${profile}' was requested, but ${profileConfigPath} does not exist`);
+        }
+
+        const profileConfig = readConfigLayer(profileConfigPath, overrideSchema);
+        recordSources(sources, profileConfig, profileConfigPath);
+        Object.assign(newConfig, profileConfig);
     }
 
     // Apply any user-specific overrides
     const userConfigPath: string = configPath.replace('.config.', '.user.');
     if (existsSync(userConfigPath)) {
-        let userConfig;
-        try {
-            userConfig = JSON.parse(readFileSync(userConfigPath, 'utf8'));
-        } catch (e) {
-            throw new Error(`Error parsing ${userConfigPath}, check JSON is valid`);
-        }
-
-        config = {...config, ...userConfig};
+        const userConfig = readConfigLayer(userConfigPath, overrideSchema);
+        recordSources(sources, userConfig, userConfigPath);
+        Object.assign(newConfig, userConfig);
     }
 
     // Read project version
-    config.VERSION = require(join(getRootDirectory(), 'package.json')).version;
+    newConfig.VERSION = require(join(getRootDirectory(), 'package.json')).version;
+    sources.VERSION = './package.json';
 
     // Apply CLI/env overrides
     const {env} = process;
-    const argList = Object.keys(config) as (keyof Config)[];
+    const argList = Object.keys(newConfig) as (keyof Config)[];
     argList.forEach(<K extends keyof Config>(key: K) => {
         if (env.hasOwnProperty(key)) {
             console.log(`Using ${key}:'${env[key]}' from environment vars`);
 
             // All parameters coming from 'env' will be strings, need to parse as correct type.
             // Will use the type of the default value to decide how to parse.
-            config[key] = parseCLIArg(env[key]!, config[key]);
+            newConfig[key] = parseCLIArg(env[key]!, newConfig[key]);
+            sources[key] = `env:${key}`;
         }
     });
 
-    config.IS_SERVICE = isService;
+    // Apply overrides from CLI args
+    const overrides: Partial<Config> = getConfigOverrides();
+    Object.assign(newConfig, overrides);
+    recordSources(sources, overrides, 'cli');
+
+    newConfig.IS_SERVICE = isService;
+    sources.IS_SERVICE = configPath;
+
+    config = newConfig;
+    configSources = sources;
     return config as T;
 }
 
+/**
+ * Returns the location that each key within the project config was read from. This will be the path of a config file,
+ * or `env:<KEY>` for values that came from environment variables.
+ */
+export function getProjectConfigSources(): Readonly<{[key: string]: string}> {
+    getProjectConfig();
+    return configSources;
+}
+
+/**
+ * Returns the name of the active config profile, or an empty string if no profile is selected.
+ */
+export function getConfigProfile(): string {
+    return process.env[CONFIG_PROFILE_ENV_VAR] || '';
+}
+
+/**
+ * Selects a named config profile, such as "ci" or "staging". The config file for this profile (e.g.
+ * `services.ci.json`) will be applied on top of the project config file, but beneath the user config file.
+ *
+ * Any config that has already been loaded is discarded, so that the next call to {@link getProjectConfig} includes
+ * the new profile.
+ *
+ * @param profile Name of the profile, or an empty string to clear the active profile
+ */
+export function setConfigProfile(profile: string): void {
+    if (RESERVED_PROFILE_NAMES.includes(profile)) {
+        throw new Error(`'${profile}' can't be used as a config profile name. Reserved names are: ${RESERVED_PROFILE_NAMES.join(', ')}`);
+    }
+
+    if (profile) {
+        process.env[CONFIG_PROFILE_ENV_VAR] = profile;
+    } else {
+        delete process.env[CONFIG_PROFILE_ENV_VAR];
+    }
+    config = null;
+}
+
+/**
+ * Overrides values within the project config, for the remainder of this process (and any child processes). Used by
+ * CLI args that act as a shortcut for a config option, such as `--https`.
+ *
+ * Any config that has already been loaded is discarded, so that the next call to {@link getProjectConfig} includes
+ * the overrides.
+ *
+ * @param overrides Config values to apply on top of all other config layers
+ */
+export function overrideProjectConfig(overrides: Partial<Config>): void {
+    process.env[CONFIG_OVERRIDES_ENV_VAR] = JSON.stringify({...getConfigOverrides(), ...overrides});
+    config = null;
+}
+
+/**
+ * Returns the schema that config files will be validated against.
+ *
+ * This is the published schema for {@link ConfigFile}, extended with any project-specific properties. Projects that
+ * add their own keys to the config file (and read them through the `getProjectConfig<T>()` generic) should describe
+ * those keys in a schema file alongside their config file - `services.schema.json` or `project.schema.json`. Only the
+ * `properties` and `required` sections of the project schema are used.
+ *
+ * @param configPath Path to the project's main config file
+ */
+export function getConfigSchema(configPath: string): JSONSchema {
+    const schema: JSONSchema = getJsonFileSync(join(getModuleRoot(), CONFIG_SCHEMA_FILENAME));
+    const projectSchemaPath: string = configPath.replace('.config.', '.schema.');
+
+    if (existsSync(projectSchemaPath)) {
+        const projectSchema: JSONSchema = getJsonFileSync(projectSchemaPath);
+
+        schema.properties = {...schema.properties, ...projectSchema.properties};
+        schema.required = [...(schema.required || []), ...(projectSchema.required || [])];
+    }
+
+    return schema;
+}
+
+function getConfigOverrides(): Partial<Config> {
+    return JSON.parse(process.env[CONFIG_OVERRIDES_ENV_VAR] || '{}');
+}
+
+function readConfigLayer(filePath: string, schema: JSONSchema): Config {
+    let data: Config;
+    try {
+        data = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        throw new Error(`Error parsing ${filePath}, check JSON is valid`);
+    }
+    validateConfig(data, filePath, schema);
+
+    return data;
+}
+
+function recordSources(sources: {[key: string]: string}, layer: Partial<Config>, filePath: string): void {
+    Object.keys(layer).forEach((key) => {
+        sources[key] = filePath;
+    });
+}
+
+function validateConfig(data: unknown, filePath: string, schema: JSONSchema): void {
+    const errors = validateSchema(data, schema);
+
+    if (errors.length > 0) {
+        const messages = errors.map((error) => `  - ${error.path || '(root)'}: ${error.message}`);
+        throw new Error(`Invalid config in ${filePath}:\n${messages.join('\n')}`);
+    }
+}
+
 function parseCLIArg<T>(input: string, defaultValue: T): T {
     // Handle specific special-case values
     if (input === 'null') {
@@ -0,0 +1,6 @@
+/**
+ * Escapes a string for use within HTML content or a quoted attribute value.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
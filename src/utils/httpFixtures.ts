@@ -0,0 +1,146 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+import fetch, {Response} from 'node-fetch';
+
+import {getRootDirectory} from './getRootDirectory';
+
+/**
+ * Controls how the tooling handles requests to remote servers, such as fetching provider manifests from the CDN.
+ *
+ * - "passthrough": Requests are sent as normal (default)
+ * - "record": Requests are sent as normal, and each response is saved as a fixture within `test/fixtures/http`
+ * - "replay": Responses are read from the saved fixtures, and no requests are sent. Requests that don't have a fixture
+ *   will fail.
+ */
+export type HttpFixtureMode = 'passthrough' | 'record' | 'replay';
+
+/**
+ * A saved response, as stored within the fixtures directory.
+ */
+interface HttpFixture {
+    url: string;
+    status: number;
+    contentType: string;
+
+    /**
+     * Response body. JSON responses are stored as parsed JSON, to keep fixtures readable and diff-able.
+     */
+    body: unknown;
+
+    /**
+     * Time the response was recorded, as an ISO date string.
+     */
+    recorded: string;
+}
+
+const HTTP_FIXTURE_MODES: HttpFixtureMode[] = ['passthrough', 'record', 'replay'];
+
+/**
+ * Name of the environment variable that holds the active fixture mode. Stored within the environment so that it is
+ * inherited by any child processes, and so that CI can enable replay without changing the commands that it runs.
+ */
+const HTTP_FIXTURES_ENV_VAR = 'HTTP_FIXTURES';
+
+/**
+ * Directory that fixtures are saved to, relative to the project root.
+ */
+const FIXTURES_DIR = 'test/fixtures/http';
+
+/**
+ * Returns the active fixture mode. See {@link HttpFixtureMode}.
+ */
+export function getHttpFixtureMode(): HttpFixtureMode {
+    const mode = (process.env[HTTP_FIXTURES_ENV_VAR] || 'passthrough') as HttpFixtureMode;
+
+    if (!HTTP_FIXTURE_MODES.includes(mode)) {
+        throw new Error(`Invalid ${HTTP_FIXTURES_ENV_VAR} mode '${mode}'. Options: ${HTTP_FIXTURE_MODES.join(' | ')}`);
+    }
+
+    return mode;
+}
+
+/**
+ * Sets the fixture mode for this process, and any child processes.
+ *
+ * @param mode One of the values of {@link HttpFixtureMode}
+ */
+export function setHttpFixtureMode(mode: string): void {
+    if (!HTTP_FIXTURE_MODES.includes(mode as HttpFixtureMode)) {
+        throw new Error(`Invalid fixture mode '${mode}'. Options: ${HTTP_FIXTURE_MODES.join(' | ')}`);
+    }
+
+    process.env[HTTP_FIXTURES_ENV_VAR] = mode;
+}
+
+/**
+ * Fetches a URL, recording or replaying the response according to the active fixture mode. Drop-in replacement for a
+ * `node-fetch` GET request.
+ *
+ * Requests to the local server are always sent as normal, as these responses are generated by the tooling itself.
+ *
+ * @param url URL to fetch
+ */
+export async function fetchWithFixtures(url: string): Promise<Response> {
+    const mode = getHttpFixtureMode();
+    const {hostname} = new URL(url);
+
+    if (mode === 'passthrough' || hostname === 'localhost' || hostname === '127.0.0.1') {
+        return fetch(url);
+    }
+
+    const fixturePath = getFixturePath(url);
+
+    if (mode === 'replay') {
+        if (!await fs.pathExists(fixturePath)) {
+            throw new Error(`No recorded response for ${url}. Record one by running with "--fixtures record".`);
+        }
+
+        const fixture: HttpFixture = await fs.readJson(fixturePath);
+        const body = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body);
+
+        return new Response(body, {url, status: fixture.status, headers: {'Content-Type': fixture.contentType}});
+    } else {
+        const response = await fetch(url);
+        const contentType = response.headers.get('Content-Type') || '';
+        const text = await response.text();
+        const fixture: HttpFixture = {
+            url,
+            status: response.status,
+            contentType,
+            body: contentType.includes('json') ? parseJson(text) : text,
+            recorded: new Date().toISOString()
+        };
+
+        await fs.outputJson(fixturePath, fixture, {spaces: 4});
+        console.log(`Recorded response from ${url} to ${path.relative(getRootDirectory(), fixturePath)}`);
+
+        return new Response(text, {url, status: response.status, headers: {'Content-Type': contentType}});
+    }
+}
+
+/**
+ * Returns the path of the fixture for a URL.
+ *
+ * Fixtures mirror the host and path of the URL. URLs with a querystring have a hash of the query appended, so that
+ * each distinct request gets its own fixture.
+ *
+ * @param url URL of the request
+ */
+export function getFixturePath(url: string): string {
+    const {host, pathname, search} = new URL(url);
+    const querySuffix = search ? `.${crypto.createHash('sha256').update(search).digest('hex').substr(0, 8)}` : '';
+    const fileName = `${pathname.replace(/\/$/, '/index')}${querySuffix}.fixture.json`;
+
+    return path.join(getRootDirectory(), FIXTURES_DIR, host.replace(':', '_'), fileName);
+}
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        // Not valid JSON, store as-is
+        return text;
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * The subset of JSON Schema (draft-07) that is understood by {@link validateSchema}.
+ *
+ * Any other keywords within a schema (such as `$schema`, `title` or `description`) are permitted, but will be ignored
+ * during validation.
+ */
+export interface JSONSchema {
+    type?: JSONSchemaType | JSONSchemaType[];
+    properties?: {[key: string]: JSONSchema};
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    items?: JSONSchema;
+    enum?: unknown[];
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    anyOf?: JSONSchema[];
+    description?: string;
+    [keyword: string]: unknown;
+}
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface SchemaError {
+    /**
+     * Dot-separated path to the offending value, relative to the root of the validated object. Will be an empty string
+     * if the error applies to the root object itself.
+     */
+    path: string;
+
+    /**
+     * Human-readable description of the problem.
+     */
+    message: string;
+}
+
+/**
+ * Validates a value against a JSON schema, returning a list of all errors found.
+ *
+ * An empty list indicates that the value is valid.
+ *
+ * @param value The value to validate, typically the result of a `JSON.parse`
+ * @param schema Schema to validate against, see {@link JSONSchema} for supported keywords
+ * @param path Path of `value` within the root object, used when validating recursively
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = ''): SchemaError[] {
+    const errors: SchemaError[] = [];
+    const addError = (message: string) => errors.push({path, message});
+
+    if (schema.anyOf) {
+        const matches = schema.anyOf.some((option) => validateSchema(value, option, path).length === 0);
+        if (!matches) {
+            addError('does not match any of the allowed formats');
+            return errors;
+        }
+    }
+
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => isOfType(value, type))) {
+            addError(`expected ${types.join(' | ')}, got ${getType(value)}`);
+            return errors;
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        addError(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        addError(`"${value}" does not match pattern ${schema.pattern}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            addError(`must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            addError(`must be <= ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => {
+            errors.push(...validateSchema(item, schema.items!, joinPath(path, index.toString())));
+        });
+    }
+
+    if (isObject(value)) {
+        const properties = schema.properties || {};
+
+        (schema.required || []).forEach((key) => {
+            if (!value.hasOwnProperty(key)) {
+                errors.push({path: joinPath(path, key), message: 'is required'});
+            }
+        });
+
+        Object.keys(value).forEach((key) => {
+            const keyPath = joinPath(path, key);
+
+            if (properties.hasOwnProperty(key)) {
+                errors.push(...validateSchema(value[key], properties[key], keyPath));
+            } else if (schema.additionalProperties === false) {
+                errors.push({path: keyPath, message: 'is not a recognised property'});
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateSchema(value[key], schema.additionalProperties, keyPath));
+            }
+        });
+    }
+
+    return errors;
+}
+
+function isOfType(value: unknown, type: JSONSchemaType): boolean {
+    switch (type) {
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return isObject(value);
+        case 'null':
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+function getType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    } else if (Array.isArray(value)) {
+        return 'array';
+    } else {
+        return typeof value;
+    }
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
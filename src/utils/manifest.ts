@@ -1,11 +1,10 @@
 import {existsSync} from 'fs';
 import {join, resolve} from 'path';
 
-import fetch from 'node-fetch';
-
 import {getProjectConfig, Config} from './getProjectConfig';
 import {getRootDirectory} from './getRootDirectory';
-import {replaceUrlParams} from './url';
+import {fetchWithFixtures} from './httpFixtures';
+import {getServerOrigin, replaceUrlParams} from './url';
 
 const urlCache: {[provider: string]: string} = {};
 
@@ -32,16 +31,16 @@ export function getProviderUrl(version: string, manifestUrl?: string): string {
     let url: string = urlCache[version];
 
     if (!url) {
-        const {PORT, CDN_LOCATION} = getProjectConfig();
+        const CDN_LOCATION = getCdnLocation();
         const overrideArgs: Partial<Config> = {};
 
         if (version === 'local') {
             const demoProviderResponse = existsSync(join(getRootDirectory(), 'res/demo/provider.json'));
 
             if (demoProviderResponse) {
-                url = `http://localhost:${PORT}/demo/provider.json`;
+                url = `${getServerOrigin()}/demo/provider.json`;
             } else {
-                url = `http://localhost:${PORT}/provider/app.json`;
+                url = `${getServerOrigin()}/provider/app.json`;
             }
         } else if (version === 'stable') {
             // Use the latest stable version
@@ -56,9 +55,9 @@ export function getProviderUrl(version: string, manifestUrl?: string): string {
             const testingProviderResponse = existsSync(join(getRootDirectory(), 'res/test/provider.json'));
 
             if (testingProviderResponse) {
-                url = `http://localhost:${PORT}/test/provider.json`;
+                url = `${getServerOrigin()}/test/provider.json`;
             } else {
-                url = `http://localhost:${PORT}/provider/app.json`;
+                url = `${getServerOrigin()}/provider/app.json`;
             }
         } else if (version.indexOf('://') > 0) {
             // Looks like an absolute URL to an app.json file
@@ -84,8 +83,41 @@ export function getProviderUrl(version: string, manifestUrl?: string): string {
     return `${url}${query}`;
 }
 
+/**
+ * Returns the location that released versions of the project should be loaded from.
+ *
+ * This will be `CDN_LOCATION`, unless the project has a `CDN_MIRROR`. In that case, the origin of the CDN is replaced
+ * with that of the local server, which serves the mirror at the same path as the CDN. The returned value may contain
+ * template params, in the same way as `CDN_LOCATION`.
+ */
+export function getCdnLocation(): string {
+    const {CDN_LOCATION, CDN_MIRROR} = getProjectConfig();
+
+    if (CDN_MIRROR) {
+        const {origin} = new URL(getCdnRoot(CDN_LOCATION));
+        return CDN_LOCATION.replace(origin, getServerOrigin());
+    } else {
+        return CDN_LOCATION;
+    }
+}
+
+/**
+ * Returns the un-versioned root of a CDN location. This is the directory that contains each versioned release of the
+ * project, as well as the manifests for the "stable" and "staging" channels.
+ *
+ * @param cdnLocation CDN location to evaluate, defaults to the location returned by {@link getCdnLocation}
+ */
+export function getCdnRoot(cdnLocation: string = getCdnLocation()): string {
+    return replaceUrlParams(cdnLocation, {VERSION: ''});
+}
+
+/**
+ * Fetches and parses a manifest. Remote manifests can be recorded and replayed, see {@link fetchWithFixtures}.
+ *
+ * @param manifestUrl URL of the manifest
+ */
 export async function getManifest(manifestUrl: string): Promise<any> {
-    const fetchRequest = await fetch(manifestUrl).catch((err: string) => {
+    const fetchRequest = await fetchWithFixtures(manifestUrl).catch((err: string) => {
         throw new Error(err);
     });
 
@@ -22,6 +22,8 @@ export interface ClassicManifest {
         defaultTop?: number;
         defaultWidth?: number;
         defaultHeight?: number;
+
+        preloadScripts?: {url: string}[];
     };
     shortcut?: {
         icon?: string;
@@ -65,17 +67,29 @@ interface SnapshotWindow {
     defaultLeft?: number;
     defaultTop?: number;
     autoShow?: boolean;
-    layout: {
-        content: PlatformStack[];
-    };
+    layout?: PlatformLayout;
+}
+
+/**
+ * Arrangement of views within a platform window.
+ */
+export interface PlatformLayout {
+    content: PlatformLayoutItem[];
+}
+
+export type PlatformLayoutItem = PlatformRowOrColumn | PlatformStack | PlatformComponent;
+
+export interface PlatformRowOrColumn {
+    type: 'row' | 'column';
+    content: PlatformLayoutItem[];
 }
 
-interface PlatformStack {
+export interface PlatformStack {
     type: 'stack';
     content: (PlatformComponent | PlatformStack)[];
 }
 
-interface PlatformComponent {
+export interface PlatformComponent {
     type: 'component';
     componentName: string;
     componentState: {
@@ -84,3 +98,29 @@ interface PlatformComponent {
         processAffinity?: 'ps_1';
     };
 }
+
+/**
+ * Returns a platform layout containing a single view.
+ *
+ * @param name Name of the view
+ * @param url URL of the view
+ */
+export function getSingleViewLayout(name: string, url: string): PlatformLayout {
+    return {
+        content: [
+            {
+                type: 'stack',
+                content: [
+                    {
+                        type: 'component',
+                        componentName: 'view',
+                        componentState: {
+                            name,
+                            url
+                        }
+                    }
+                ]
+            }
+        ]
+    };
+}
@@ -3,8 +3,8 @@ import * as os from 'os';
 
 import {shell} from 'execa';
 import * as fs from 'fs-extra';
-import {connect} from 'hadouken-js-adapter';
 
+import {getLauncher} from '../launcher';
 import {CLIArguments} from '../types';
 
 import {getProjectConfig} from './getProjectConfig';
@@ -130,8 +130,9 @@ export function mapRuntimeVersion(version: string): string {
 }
 
 /**
- * Opens an adapter connection to the given runtime version. This will cause the RVM to download and install the
- * runtime, if it is not already installed.
+ * Installs the given runtime version using the active launcher, see {@link getLauncher}. For the default launcher, this
+ * opens an adapter connection to the runtime - causing the RVM to download and install the runtime, if it is not
+ * already installed.
  *
  * Will return the version number of the given runtime, as reported by the connection. This will typically be the same
  * string as the input argument, but will differ if `version` was the name of a release channel.
@@ -146,15 +147,7 @@ export async function installRuntime(version: string): Promise<string> {
         throw new Error(`Must not use installRuntime with mapped runtime versions (attempted to install ${version})`);
     }
 
-    // Use the JS adapter to start an application on this runtime, then immediately exit
-    const connection = await connect({
-        uuid: 'temp-app',
-        runtime: {version}
-    });
-    const runtimeVersion = await connection.System.getVersion();
-    await connection['wire'].wire.shutdown();
-
-    return runtimeVersion;
+    return getLauncher().installRuntime(version);
 }
 
 /**
@@ -187,7 +180,7 @@ export function isRuntimeInstalled(version: string): boolean {
  *
  * @param version Any valid runtime version number
  */
-function getInstallDirectory(version: string): string {
+export function getInstallDirectory(version: string): string {
     let dir;
 
     // TODO: Check mac/linux paths
@@ -0,0 +1,285 @@
+import {ChildProcess} from 'child_process';
+import * as os from 'os';
+
+import * as execa from 'execa';
+
+import {withTimeout} from './timeout';
+
+/**
+ * The kinds of resource that are tracked by the shutdown manager.
+ *
+ * Resources are torn down in this order. Runtimes and applications go first, as they hold connections to the servers,
+ * then child processes (such as jest), then socket servers, and finally the local server itself. Resources of the same
+ * kind are torn down in the reverse of the order they were created.
+ */
+export type ResourceKind = 'runtime' | 'process' | 'socket' | 'server';
+
+/**
+ * Anything with a node-style `close` method, such as a HTTP server or socket server.
+ */
+export interface Closeable {
+    close(callback?: (error?: Error) => void): unknown;
+}
+
+interface TrackedResource {
+    name: string;
+    kind: ResourceKind;
+    close: () => void | Promise<void>;
+
+    /**
+     * Synchronous fallback, for if the process exits without {@link shutdown} being called. Only needed for resources
+     * that would otherwise outlive this process.
+     */
+    forceClose?: () => void;
+}
+
+const TEARDOWN_ORDER: ResourceKind[] = ['runtime', 'process', 'socket', 'server'];
+
+/**
+ * How long each resource is given to close, before it is reported as a failure.
+ */
+const CLOSE_TIMEOUT_MILLIS = 5000;
+
+/**
+ * Names of the SIGINT listeners added by the `tmp` package, see {@link installHandlers}.
+ */
+const TMP_SIGINT_LISTENERS = ['_tmp$sigint_listener'];
+
+let resources: TrackedResource[] = [];
+let pendingShutdown: Promise<string[]> | null = null;
+let handlersInstalled = false;
+
+/**
+ * Registers a resource that should be cleaned-up when the tooling exits.
+ *
+ * Once a resource is tracked, the process will tear down all tracked resources (see {@link shutdown}) before exiting
+ * on SIGINT/SIGTERM, or after an uncaught error or unhandled promise rejection.
+ *
+ * @param name Description of the resource, used when reporting any problems
+ * @param kind Type of resource, which determines the order in which resources are torn down
+ * @param close Closes the resource. Any error (or exceeding the timeout) will be reported as a failure.
+ * @param forceClose Optional synchronous alternative to `close`, used if the process exits without calling `shutdown`
+ * @returns Function that stops tracking the resource, for when it is closed by other means
+ */
+export function trackResource(name: string, kind: ResourceKind, close: () => void | Promise<void>, forceClose?: () => void): () => void {
+    const resource: TrackedResource = {name, kind, close, forceClose};
+
+    installHandlers();
+    resources.push(resource);
+
+    return () => {
+        resources = resources.filter((existing) => existing !== resource);
+    };
+}
+
+/**
+ * Tracks a child process. The process is sent SIGTERM on shutdown, and SIGKILL if it hasn't exited within a few seconds.
+ * The process stops being tracked once it exits.
+ *
+ * @param name Description of the process, used when reporting any problems
+ * @param child Child process, as returned by `execa` or `child_process.spawn`
+ */
+export function trackChildProcess(name: string, child: ChildProcess): void {
+    const untrack = trackResource(`${name} (pid ${child.pid})`, 'process', () => killChildProcess(child), () => child.kill('SIGKILL'));
+
+    child.once('exit', untrack);
+}
+
+/**
+ * Tracks a HTTP(S) server or socket server. The resource stops being tracked if it is closed by other means.
+ *
+ * @param name Description of the server, used when reporting any problems
+ * @param server Server to close on shutdown
+ * @param kind Either 'server' or 'socket', defaults to 'server'
+ */
+export function trackServer(name: string, server: Closeable & NodeJS.EventEmitter, kind: 'server' | 'socket' = 'server'): void {
+    const untrack = trackResource(name, kind, () => new Promise<void>((resolve, reject) => {
+        server.close((error?: Error) => (error ? reject(error) : resolve()));
+    }));
+
+    server.once('close', untrack);
+}
+
+/**
+ * Tears down every tracked resource, in the order described by {@link ResourceKind}. Each resource is attempted even if
+ * earlier resources fail to close.
+ *
+ * Calling this more than once will return the result of the first call.
+ *
+ * @returns A description of each resource that couldn't be closed. These are also written to the console.
+ */
+export function shutdown(): Promise<string[]> {
+    if (!pendingShutdown) {
+        pendingShutdown = teardown();
+    }
+
+    return pendingShutdown;
+}
+
+/**
+ * Tears down every tracked resource, then exits the process. Should be used in place of `process.exit` anywhere that
+ * resources may have been created.
+ *
+ * @param code Exit code of the process
+ */
+export async function exitProcess(code: number): Promise<never> {
+    await shutdown();
+    process.exit(code);
+}
+
+/**
+ * Kills any process that is listening on the given TCP port, along with its child processes. Uses `netstat` and
+ * `taskkill` on Windows, and `lsof` (or `fuser`, if `lsof` isn't installed) elsewhere.
+ *
+ * Throws if the processes couldn't be found or killed, rather than failing silently. A port that nothing is listening on
+ * isn't considered an error.
+ *
+ * @param port Port that the process is listening on
+ * @returns The IDs of any processes that were killed
+ */
+export async function killProcessesOnPort(port: number): Promise<number[]> {
+    const pids = findProcessesOnPort(port).filter((pid) => pid !== process.pid);
+
+    for (const pid of pids) {
+        if (os.platform() === 'win32') {
+            const result = await execa('taskkill', ['/F', '/T', '/PID', pid.toString()], {reject: false});
+
+            if (result.code !== 0) {
+                throw new Error(`Couldn't kill process ${pid} on port ${port}: ${result.stderr.trim()}`);
+            }
+        } else {
+            process.kill(pid, 'SIGTERM');
+        }
+    }
+
+    return pids;
+}
+
+async function teardown(): Promise<string[]> {
+    const failures: string[] = [];
+    const timeout = async (): Promise<void> => {
+        throw new Error(`Didn't close within ${CLOSE_TIMEOUT_MILLIS / 1000} seconds`);
+    };
+
+    for (const kind of TEARDOWN_ORDER) {
+        const resourcesOfKind = resources.filter((resource) => resource.kind === kind).reverse();
+
+        for (const resource of resourcesOfKind) {
+            try {
+                await withTimeout(Promise.resolve().then(resource.close), CLOSE_TIMEOUT_MILLIS, timeout);
+                resources = resources.filter((existing) => existing !== resource);
+            } catch (error) {
+                failures.push(`${resource.name}: ${(error && error.message) || error}`);
+            }
+        }
+    }
+
+    if (failures.length > 0) {
+        console.warn(`Couldn't clean up the following, these may need to be closed manually:\n  - ${failures.join('\n  - ')}`);
+    }
+
+    return failures;
+}
+
+function installHandlers(): void {
+    if (handlersInstalled) {
+        return;
+    }
+    handlersInstalled = true;
+
+    // The `tmp` package (used by `asar`) adds a SIGINT listener that exits the process immediately, which wouldn't leave
+    // time for an asynchronous shutdown. It also cleans-up on exit, so the listener can be removed. Any other listeners
+    // are left in place.
+    process.listeners('SIGINT').filter((listener) => TMP_SIGINT_LISTENERS.includes(listener.name)).forEach((listener) => {
+        process.removeListener('SIGINT', listener);
+    });
+
+    // A second Ctrl+C exits immediately. This is done explicitly, as any remaining SIGINT listeners would otherwise
+    // prevent node from exiting.
+    process.on('SIGINT', () => {
+        if (pendingShutdown) {
+            process.exit(130);
+        }
+
+        console.log('Shutting down (press Ctrl+C again to force)...');
+        exitProcess(130);
+    });
+    process.once('SIGTERM', () => exitProcess(143));
+    process.on('uncaughtException', (error) => {
+        console.error(error);
+        exitProcess(1);
+    });
+    process.on('unhandledRejection', (reason) => {
+        console.error(reason);
+        exitProcess(1);
+    });
+
+    // Last resort, for any code path that exits without calling `shutdown`. Only synchronous clean-up is possible here.
+    process.on('exit', () => {
+        const failures: string[] = [];
+
+        resources.filter((resource) => resource.forceClose).forEach((resource) => {
+            try {
+                resource.forceClose!();
+            } catch (error) {
+                failures.push(`${resource.name}: ${(error && error.message) || error}`);
+            }
+        });
+
+        if (failures.length > 0) {
+            console.warn(`Couldn't clean up the following, these may need to be closed manually:\n  - ${failures.join('\n  - ')}`);
+        }
+    });
+}
+
+function killChildProcess(child: ChildProcess): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const forceKill = setTimeout(() => child.kill('SIGKILL'), CLOSE_TIMEOUT_MILLIS / 2);
+
+        child.once('exit', () => {
+            clearTimeout(forceKill);
+            resolve();
+        });
+        child.once('error', (error) => {
+            clearTimeout(forceKill);
+            reject(error);
+        });
+
+        child.kill('SIGTERM');
+    });
+}
+
+function findProcessesOnPort(port: number): number[] {
+    if (os.platform() === 'win32') {
+        // Rows are of the form "TCP  127.0.0.1:9696  0.0.0.0:0  LISTENING  1234"
+        const {stdout} = execa.sync('netstat', ['-a', '-n', '-o', '-p', 'TCP']);
+
+        return parsePids(stdout.split(/\r?\n/)
+            .map((line) => line.trim().split(/\s+/))
+            .filter((columns) => columns[1] && columns[1].endsWith(`:${port}`) && columns[3] === 'LISTENING')
+            .map((columns) => columns[4]));
+    }
+
+    const commands: [string, string[]][] = [
+        ['lsof', ['-t', '-n', `-iTCP:${port}`, '-sTCP:LISTEN']],
+        ['fuser', ['-n', 'tcp', `${port}`]]
+    ];
+
+    for (const [command, args] of commands) {
+        // Both commands exit with a non-zero code if no processes are found, so failures are checked for manually
+        const result = execa.sync(command, args, {reject: false});
+
+        // A missing command is reported as an 'ENOENT' code, rather than an exit code
+        if (result.code as number | string !== 'ENOENT') {
+            return parsePids((result.stdout || '').split(/\s+/));
+        }
+    }
+
+    throw new Error(`Couldn't find the process listening on port ${port}, as neither "lsof" nor "fuser" is installed`);
+}
+
+function parsePids(values: string[]): number[] {
+    const pids = values.filter((value) => /^\d+$/.test(value)).map((value) => parseInt(value));
+
+    return pids.filter((pid, index) => pids.indexOf(pid) === index);
+}
@@ -6,6 +6,16 @@ const trimFragment: RegExp = /^\/*(.*?)\/*$/;
 
 const templateCache: {[template: string]: Function} = {};
 
+/**
+ * Returns the origin of the local server, e.g. "http://localhost:8080". The scheme will be "https" if the project config
+ * has `HTTPS` enabled.
+ */
+export function getServerOrigin(): string {
+    const {PORT, HTTPS} = getProjectConfig();
+
+    return `${HTTPS ? 'https' : 'http'}://localhost:${PORT}`;
+}
+
 /**
  * Joins all of the given strings, ensuring there is exactly one forward slash between each string, regardless of the
  * leading/trailing slashes within each fragment.
@@ -0,0 +1,141 @@
+import * as path from 'path';
+
+import * as webpack from 'webpack';
+
+import {getRootDirectory} from '../utils/getRootDirectory';
+
+export interface BuildStatus {
+    /**
+     * - "idle": No build has been started, such as when serving pre-built files
+     * - "building": A build is in progress. `components` will hold the results of the previous build, if any.
+     * - "success": The most recent build completed without errors. There may still be warnings.
+     * - "failed": The most recent build had errors in one or more components
+     */
+    state: 'idle' | 'building' | 'success' | 'failed';
+
+    /**
+     * Time that the status last changed, in milliseconds since epoch.
+     */
+    updated: number;
+
+    components: ComponentStatus[];
+}
+
+export interface ComponentStatus {
+    /**
+     * Output directory of the component, relative to the project root - e.g. "dist/provider".
+     */
+    name: string;
+
+    errors: BuildDiagnostic[];
+    warnings: BuildDiagnostic[];
+
+    /**
+     * Files output by the most recent build of this component, with their size in bytes.
+     */
+    assets: {name: string; size: number}[];
+}
+
+export interface BuildDiagnostic {
+    message: string;
+
+    /**
+     * Absolute path of the file that caused the error, if known.
+     */
+    file?: string;
+    line?: number;
+    column?: number;
+}
+
+/**
+ * The subset of the errors/warnings that can be added to a compilation. Errors from ForkTsChecker will have a `file` and
+ * `location`, whereas errors from loaders will reference the `module` that caused the error.
+ */
+interface CompilationError {
+    message: string;
+    rawMessage?: string;
+    file?: string;
+    location?: {line?: number; character?: number};
+    module?: {resource?: string};
+    loc?: {start?: {line: number; column: number}};
+}
+
+let status: BuildStatus = {state: 'idle', updated: Date.now(), components: []};
+
+/**
+ * Returns the status of the most recent webpack build.
+ */
+export function getBuildStatus(): Readonly<BuildStatus> {
+    return status;
+}
+
+/**
+ * Updates the build status whenever the given compiler starts or completes a build.
+ *
+ * @param compiler Either a single compiler, or a multi-compiler containing a compiler for each component
+ */
+export function trackBuildStatus(compiler: webpack.ICompiler): void {
+    const multiCompiler = compiler as webpack.MultiCompiler;
+
+    multiCompiler.hooks.invalid.tap('BuildStatus', () => {
+        status = {...status, state: 'building', updated: Date.now()};
+    });
+
+    multiCompiler.hooks.done.tap('BuildStatus', (result: webpack.Stats | webpack.compilation.MultiStats) => {
+        const stats = result.hasOwnProperty('stats') ? (result as webpack.compilation.MultiStats).stats : [result as webpack.Stats];
+        const isOwnedByComponent = createOwnershipFilter(stats);
+        const components: ComponentStatus[] = stats.map((stat) => ({
+            name: path.relative(getRootDirectory(), stat.compilation.outputOptions.path),
+            errors: stat.compilation.errors.map(toDiagnostic).filter((error) => isOwnedByComponent(error, stat)),
+            warnings: stat.compilation.warnings.map(toDiagnostic).filter((warning) => isOwnedByComponent(warning, stat)),
+            assets: Object.keys(stat.compilation.assets).sort().map((name) => ({name, size: stat.compilation.assets[name].size()}))
+        }));
+        const hasErrors = components.some((component) => component.errors.length > 0);
+
+        status = {state: hasErrors ? 'failed' : 'success', updated: Date.now(), components};
+    });
+
+    status = {state: 'building', updated: Date.now(), components: []};
+}
+
+/**
+ * ForkTsChecker checks the whole project, so reports the same type errors within every component. When running in watch
+ * mode, only the components that depend on a changed file are re-built - so the other components would otherwise keep
+ * reporting errors that have since been fixed.
+ *
+ * Diagnostics are therefore only attributed to the components that include the file. Diagnostics from files that
+ * aren't included in any component (or that don't reference a file) are attributed to every component.
+ */
+function createOwnershipFilter(stats: webpack.Stats[]): (diagnostic: BuildDiagnostic, stat: webpack.Stats) => boolean {
+    const getDependencies = (stat: webpack.Stats) => stat.compilation.fileDependencies as Set<string>;
+
+    return (diagnostic, stat) => {
+        const {file} = diagnostic;
+
+        if (!file || getDependencies(stat).has(file)) {
+            return true;
+        } else {
+            return !stats.some((other) => getDependencies(other).has(file));
+        }
+    };
+}
+
+function toDiagnostic(error: CompilationError | string): BuildDiagnostic {
+    if (typeof error === 'string') {
+        return {message: error};
+    } else if (error.file) {
+        return {
+            message: error.rawMessage || error.message,
+            file: error.file,
+            line: error.location && error.location.line,
+            column: error.location && error.location.character
+        };
+    } else {
+        return {
+            message: error.message,
+            file: error.module && error.module.resource,
+            line: error.loc && error.loc.start && error.loc.start.line,
+            column: error.loc && error.loc.start && error.loc.start.column
+        };
+    }
+}
@@ -1,18 +1,39 @@
 import {EventEmitter} from 'events';
 import webpack = require('webpack');
 
-import {WSS_DEFAULT_PORT} from '../constants';
+import {SOCKET_PORT_PATH, WSS_DEFAULT_PORT} from '../constants';
 
 const eventEmitter = new EventEmitter();
 
 export const WebpackEvents = {
     on<T extends keyof webpack.compilation.MultiCompilerHooks>(type: T, callback: (type: T) => void) {
-        const ws = new WebSocket(`ws://localhost:${WSS_DEFAULT_PORT}`);
-
         eventEmitter.addListener(type.toUpperCase(), callback);
 
-        ws.onmessage = function (message: MessageEvent) {
-            eventEmitter.emit(JSON.parse(message.data).type);
-        };
+        getSocketPort().then((port) => {
+            const ws = new WebSocket(`${location.protocol === 'https:' ? 'wss' : 'ws'}://localhost:${port}`);
+
+            ws.onmessage = function (message: MessageEvent) {
+                eventEmitter.emit(JSON.parse(message.data).type);
+            };
+        });
     }
 };
+
+/**
+ * Queries the local server for the port of its socket server. Falls back to the default port if the current page wasn't
+ * served by the local server.
+ */
+async function getSocketPort(): Promise<number> {
+    try {
+        const response = await fetch(SOCKET_PORT_PATH);
+
+        if (response.ok) {
+            const {port}: {port: number} = await response.json();
+            return port;
+        }
+    } catch (e) {
+        // Use default port
+    }
+
+    return WSS_DEFAULT_PORT;
+}
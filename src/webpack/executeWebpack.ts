@@ -8,65 +8,144 @@ import * as webpackDevMiddleware from 'webpack-dev-middleware';
 import {WebpackMode} from '../types';
 import {getRootDirectory} from '../utils/getRootDirectory';
 
+import {trackBuildStatus} from './buildStatus';
+
+/**
+ * Express-compatible middleware that serves the output of a webpack build, see {@link executeWebpack}.
+ */
+export type WebpackMiddleware = webpackDevMiddleware.WebpackDevMiddleware & RequestHandler & {
+    /**
+     * Internal state of the middleware. Exists at runtime, but isn't included in the type definitions.
+     */
+    context: {compiler: webpack.ICompiler};
+};
+
 /**
  * Executes Webpack.  Doubles as express-compatible middleware function to serve webpack modules.
  *
- * Wrapper will immediately terminate the server if the initial build fails.
+ * The returned promise resolves once the initial build has completed, even if that build fails. Callers that require a
+ * successful build should check the result using {@link getBuildStatus}.
  *
  * This is a wrapper around the webpack-dev-middleware utility.
  */
-export async function executeWebpack(mode: WebpackMode, writeToDisk: boolean): Promise<RequestHandler> {
-    return new Promise<RequestHandler>((resolve) => {
-        // Load config and set development mode
-        const config: Configuration|Configuration[] = require(`${getRootDirectory()}/webpack.config.js`);
-
-        // Ensure 'mode' is set on all entry points
-        if (Array.isArray(config)) {
-            config.forEach((entry: Configuration) => {
-                entry.mode = (entry.mode || mode);
-            });
-        } else {
-            config.mode = (config.mode || mode);
-        }
-
-        // Webpack can be invoked with one or multiple config objects, but TypeScript gets confused by the use of a
-        // union type for `config`, requiring a cast.
-        const compiler: webpack.ICompiler = webpack(config as Configuration);
+export async function executeWebpack(mode: WebpackMode, writeToDisk: boolean): Promise<WebpackMiddleware> {
+    return new Promise<WebpackMiddleware>((resolve) => {
+        const compiler = createWebpackCompiler(mode);
 
         // Create express middleware
-        const middleware = webpackDevMiddleware(compiler, {publicPath: '/', writeToDisk});
+        const middleware = webpackDevMiddleware(compiler, {publicPath: '/', writeToDisk}) as unknown as WebpackMiddleware;
 
         // Wait until initial build has finished before starting application
         const startTime = Date.now();
         middleware.waitUntilValid((result: Stats | {stats: Stats[]}) => {
+            const stats = isSingleResult(result) ? [result] : result.stats;
+
             // Output build times
-            let buildTimes: string;
-            let hasError: boolean = false;
-            if (isSingleResult(result)) {
-                const component = path.relative(getRootDirectory(), result.compilation.outputOptions.path);
-                buildTimes = `${component}: ${(result.endTime!.valueOf() - result.startTime!.valueOf()) / 1000}s`;
-                hasError = result.compilation.errors.length > 0;
-            } else {
-                buildTimes = result.stats.map((stat) => {
-                    hasError = hasError || stat.compilation.errors.length > 0;
-
-                    const component = path.relative(getRootDirectory(), stat.compilation.outputOptions.path);
-                    return `${component}: ${(stat.endTime!.valueOf() - stat.startTime!.valueOf()) / 1000}s`;
-                }).join('\n    ');
-            }
-            console.log(`\nInitial build complete after ${(Date.now() - startTime) / 1000} seconds\n    ${buildTimes}\n`);
+            console.log(`\nInitial build complete after ${(Date.now() - startTime) / 1000} seconds\n    ${getBuildTimes(stats)}\n`);
 
             // Check build status
-            if (hasError) {
+            if (hasErrors(stats)) {
                 console.error('Build failed. See output above.');
-                process.exit(1);
-            } else {
-                resolve(middleware);
             }
+            resolve(middleware);
         });
     });
 }
 
+/**
+ * Runs webpack in watch mode, writing the output to disk. Each time a build completes, a summary of the components that
+ * were (re-)built is written to the console.
+ *
+ * Unlike {@link executeWebpack}, build errors will not terminate the process. The watcher will continue to run, and
+ * the next successful build will be reported as normal.
+ *
+ * @param mode Webpack mode to use for any configs that don't explicitly set a mode
+ * @param onBuild Optional callback, invoked after each successful build (including the initial build)
+ */
+export function watchWebpack(mode: WebpackMode, onBuild?: () => void): webpack.Watching {
+    const compiler = createWebpackCompiler(mode);
+    const buildTimes: {[component: string]: number} = {};
+    let isInitialBuild = true;
+
+    return compiler.watch({}, (error: Error, result: Stats | {stats: Stats[]}) => {
+        if (error) {
+            // Fatal webpack error (e.g. invalid config), rather than an error within the code being built
+            console.error(error);
+            return;
+        }
+
+        // Only report on components that were re-built. Other components within a multi-config build will still
+        // be included within the results, but with the same end time as their previous build.
+        const stats = (isSingleResult(result) ? [result] : result.stats).filter((stat) => {
+            const component = getComponentName(stat);
+            const isChanged = buildTimes[component] !== stat.endTime;
+
+            buildTimes[component] = stat.endTime!;
+            return isChanged;
+        });
+
+        if (stats.length === 0) {
+            return;
+        }
+
+        const duration = Math.max(...stats.map((stat) => stat.endTime!)) - Math.min(...stats.map((stat) => stat.startTime!));
+        console.log(`\n${isInitialBuild ? 'Initial build' : 'Rebuild'} complete after ${duration / 1000} seconds\n    ${getBuildTimes(stats)}\n`);
+        isInitialBuild = false;
+
+        if (hasErrors(stats)) {
+            stats.filter((stat) => stat.hasErrors()).forEach((stat) => console.error(stat.toString('errors-only')));
+            console.error('Build failed. Waiting for changes...');
+        } else {
+            console.log('Waiting for changes...');
+
+            if (onBuild) {
+                onBuild();
+            }
+        }
+    });
+}
+
+/**
+ * Creates a webpack compiler from the project's webpack config.
+ *
+ * @param mode Webpack mode to use for any configs that don't explicitly set a mode
+ */
+function createWebpackCompiler(mode: WebpackMode): webpack.ICompiler {
+    // Load config and set development mode
+    const config: Configuration|Configuration[] = require(`${getRootDirectory()}/webpack.config.js`);
+
+    // Ensure 'mode' is set on all entry points
+    if (Array.isArray(config)) {
+        config.forEach((entry: Configuration) => {
+            entry.mode = (entry.mode || mode);
+        });
+    } else {
+        config.mode = (config.mode || mode);
+    }
+
+    // Webpack can be invoked with one or multiple config objects, but TypeScript gets confused by the use of a
+    // union type for `config`, requiring a cast.
+    const compiler: webpack.ICompiler = webpack(config as Configuration);
+
+    trackBuildStatus(compiler);
+    return compiler;
+}
+
+/**
+ * Formats the build time of each component, with one component per line.
+ */
+function getBuildTimes(stats: Stats[]): string {
+    return stats.map((stat) => `${getComponentName(stat)}: ${(stat.endTime!.valueOf() - stat.startTime!.valueOf()) / 1000}s`).join('\n    ');
+}
+
+function getComponentName(stats: Stats): string {
+    return path.relative(getRootDirectory(), stats.compilation.outputOptions.path);
+}
+
+function hasErrors(stats: Stats[]): boolean {
+    return stats.some((stat) => stat.compilation.errors.length > 0);
+}
+
 function isSingleResult(results: Stats | {stats: Stats[]}): results is Stats {
     return !results.hasOwnProperty('stats');
 }
@@ -0,0 +1,130 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {ATTEMPTS_DIR, FlakyTest, RecordedTest, clearTestAttempts, reportRetries} from '../src/testing/flaky';
+import {getRootDirectory} from '../src/utils/getRootDirectory';
+
+jest.mock('../src/utils/getRootDirectory');
+
+describe('reportRetries', () => {
+    let rootDir: string;
+    let junitPath: string;
+    let flakyPath: string;
+    let log: jest.SpyInstance;
+
+    const passed = {passed: true, errors: []};
+    const failed = (message: string) => ({passed: false, errors: [message]});
+
+    function createTest(title: string, attempts: RecordedTest['attempts']): RecordedTest {
+        return {testPath: path.join(rootDir, 'app.inttest.ts'), ancestorTitles: ['Windows'], title, attempts};
+    }
+
+    async function writeAttempts(tests: RecordedTest[]): Promise<void> {
+        await fs.outputJson(path.join(rootDir, ATTEMPTS_DIR, 'app.json'), tests);
+    }
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-flaky-'));
+        junitPath = path.join(rootDir, 'dist/test/results-int.xml');
+        flakyPath = path.join(rootDir, 'dist/test/flaky.json');
+        log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+    });
+
+    afterEach(async () => {
+        log.mockRestore();
+        await fs.remove(rootDir);
+    });
+
+    it('Adds failed attempts to the JUnit report', async () => {
+        await writeAttempts([
+            createTest('opens', [failed('Timed-out'), passed]),
+            createTest('closes', [failed('Not closed'), failed('Still not closed')]),
+            createTest('moves', [passed])
+        ]);
+        await fs.outputFile(junitPath, [
+            '<testsuite name="app">',
+            '<testcase classname="int.app" name="Windows &gt; opens" time="1">',
+            '</testcase>',
+            '<testcase classname="int.app" name="Windows &gt; closes" time="1">',
+            '<failure>Still not closed</failure></testcase>',
+            '<testcase classname="int.app" name="Windows &gt; moves" time="1">',
+            '</testcase>',
+            '</testsuite>'
+        ].join('\n'));
+
+        await reportRetries(junitPath);
+
+        expect(await fs.readFile(junitPath, 'utf8')).toEqual([
+            '<testsuite name="app">',
+            '<testcase classname="int.app" name="Windows &gt; opens" time="1">',
+            '      <flakyFailure message="Attempt 1 of 2 failed">Timed-out</flakyFailure>',
+            '</testcase>',
+            '<testcase classname="int.app" name="Windows &gt; closes" time="1">',
+            '      <rerunFailure message="Attempt 1 of 2 failed">Not closed</rerunFailure>',
+            '<failure>Still not closed</failure></testcase>',
+            '<testcase classname="int.app" name="Windows &gt; moves" time="1">',
+            '</testcase>',
+            '</testsuite>'
+        ].join('\n'));
+    });
+
+    it('Adds tests that passed only on retry to the flaky test report', async () => {
+        await writeAttempts([
+            createTest('opens', [failed('Timed-out'), failed('Timed-out again'), passed]),
+            createTest('closes', [failed('Not closed'), failed('Still not closed')]),
+            createTest('moves', [passed])
+        ]);
+
+        await reportRetries(junitPath);
+
+        const report: FlakyTest[] = await fs.readJson(flakyPath);
+        expect(report).toEqual([{
+            file: 'app.inttest.ts',
+            name: 'Windows > opens',
+            flakyRuns: 1,
+            history: [{date: expect.any(String), attempts: 3, passed: true, errors: ['Timed-out', 'Timed-out again']}]
+        }]);
+        expect(log).toHaveBeenCalledWith('  - app.inttest.ts: Windows > opens (3 attempts)');
+        expect(log).toHaveBeenCalledWith('  - app.inttest.ts: Windows > closes (2 attempts)');
+    });
+
+    it('Adds each run to the history of tests that are already in the report', async () => {
+        const history = Array.from({length: 20}, (value, index) => ({date: `2020-01-${index + 1}`, attempts: 2, passed: true, errors: ['Timed-out']}));
+        await fs.outputJson(flakyPath, [{file: 'app.inttest.ts', name: 'Windows > opens', flakyRuns: 20, history}]);
+        await writeAttempts([createTest('opens', [passed])]);
+
+        await reportRetries(junitPath);
+
+        const [entry]: FlakyTest[] = await fs.readJson(flakyPath);
+        expect(entry.flakyRuns).toEqual(19);
+        expect(entry.history).toHaveLength(20);
+        expect(entry.history[0].date).toEqual('2020-01-2');
+        expect(entry.history[19]).toEqual({date: expect.any(String), attempts: 1, passed: true, errors: []});
+    });
+
+    it('Writes an empty flaky test report if no tests were retried', async () => {
+        await reportRetries(junitPath);
+
+        expect(await fs.pathExists(junitPath)).toBe(false);
+        expect(await fs.readJson(flakyPath)).toEqual([]);
+        expect(log).not.toHaveBeenCalled();
+    });
+});
+
+describe('clearTestAttempts', () => {
+    it('Removes the attempts of previous runs', async () => {
+        const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-flaky-'));
+
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+        await fs.outputJson(path.join(rootDir, ATTEMPTS_DIR, 'app.json'), []);
+
+        await clearTestAttempts();
+
+        expect(await fs.pathExists(path.join(rootDir, ATTEMPTS_DIR))).toBe(false);
+        await fs.remove(rootDir);
+    });
+});
@@ -0,0 +1,107 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {getModuleRoot} from '../src/utils/getModuleRoot';
+import {getConfigProfile, getProjectConfig, getProjectConfigSources, overrideProjectConfig, setConfigProfile} from '../src/utils/getProjectConfig';
+import {getRootDirectory} from '../src/utils/getRootDirectory';
+
+jest.mock('../src/utils/getModuleRoot');
+jest.mock('../src/utils/getRootDirectory');
+
+describe('getProjectConfig', () => {
+    const cwd = process.cwd();
+    const env = process.env;
+    let rootDir: string;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-config-'));
+        process.chdir(rootDir);
+        process.env = {...env};
+        delete process.env.PORT;
+
+        (getModuleRoot as jest.Mock).mockReturnValue(path.resolve(__dirname, '../src/config'));
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+
+        await fs.outputJson('package.json', {version: '1.2.3'});
+        await fs.outputJson('services.config.json', {NAME: 'layouts', TITLE: 'Layouts', PORT: 3000, CDN_LOCATION: 'https://cdn.openfin.co/layouts'});
+        setConfigProfile('');
+    });
+
+    afterEach(async () => {
+        process.chdir(cwd);
+        process.env = env;
+        await fs.remove(rootDir);
+    });
+
+    it('Reads the project config file', () => {
+        expect(getProjectConfig()).toEqual({
+            NAME: 'layouts',
+            TITLE: 'Layouts',
+            PORT: 3000,
+            CDN_LOCATION: 'https://cdn.openfin.co/layouts',
+            VERSION: '1.2.3',
+            IS_SERVICE: true
+        });
+    });
+
+    it('Applies the profile, user, environment and CLI layers in order', async () => {
+        await fs.outputJson('services.ci.json', {TITLE: 'Layouts (CI)', PORT: 3001, HTTPS: true});
+        await fs.outputJson('services.user.json', {PORT: 3002, CDN_LOCATION: 'https://localhost/layouts'});
+        process.env.CDN_LOCATION = 'https://example.com/layouts';
+        const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+        setConfigProfile('ci');
+        overrideProjectConfig({HTTPS: false});
+
+        expect(getConfigProfile()).toEqual('ci');
+        expect(getProjectConfig()).toMatchObject({
+            NAME: 'layouts',
+            TITLE: 'Layouts (CI)',
+            PORT: 3002,
+            CDN_LOCATION: 'https://example.com/layouts',
+            HTTPS: false
+        });
+        expect(getProjectConfigSources()).toEqual({
+            NAME: './services.config.json',
+            TITLE: './services.ci.json',
+            PORT: './services.user.json',
+            CDN_LOCATION: 'env:CDN_LOCATION',
+            HTTPS: 'cli',
+            VERSION: './package.json',
+            IS_SERVICE: './services.config.json'
+        });
+        log.mockRestore();
+    });
+
+    it('Discards loaded config when the profile changes', async () => {
+        await fs.outputJson('services.staging.json', {PORT: 4000});
+
+        expect(getProjectConfig().PORT).toEqual(3000);
+        setConfigProfile('staging');
+        expect(getProjectConfig().PORT).toEqual(4000);
+        setConfigProfile('');
+        expect(getProjectConfig().PORT).toEqual(3000);
+    });
+
+    it('Throws if the requested profile doesn\'t exist', () => {
+        setConfigProfile('missing');
+
+        expect(() => getProjectConfig()).toThrow('Config profile \'missing\' was requested, but ./services.missing.json does not exist');
+    });
+
+    it('Rejects reserved profile names', () => {
+        ['config', 'user', 'schema'].forEach((profile) => {
+            expect(() => setConfigProfile(profile)).toThrow(`'${profile}' can't be used as a config profile name`);
+        });
+        expect(getConfigProfile()).toEqual('');
+    });
+
+    it('Validates profile config against the schema', async () => {
+        await fs.outputJson('services.ci.json', {PORT: 'auto'});
+        setConfigProfile('ci');
+
+        expect(() => getProjectConfig()).toThrow('services.ci.json');
+    });
+});
@@ -0,0 +1,115 @@
+import {EventEmitter} from 'events';
+
+import {connect} from 'hadouken-js-adapter';
+
+import {EventTarget, getConnection, waitForCondition, waitForEvent} from '../src/testing/harness';
+import {getProjectConfig} from '../src/utils/getProjectConfig';
+
+jest.mock('hadouken-js-adapter');
+jest.mock('../src/utils/getProjectConfig');
+
+/**
+ * Stand-in for an OpenFin event emitter, with the same promise-based listener API.
+ */
+class FakeTarget implements EventTarget {
+    public readonly emitter = new EventEmitter();
+
+    public async addListener(eventType: string, listener: (payload: any) => void): Promise<void> {
+        this.emitter.addListener(eventType, listener);
+    }
+
+    public async removeListener(eventType: string, listener: (payload: any) => void): Promise<void> {
+        this.emitter.removeListener(eventType, listener);
+    }
+}
+
+describe('getConnection', () => {
+    const env = process.env;
+
+    beforeEach(() => {
+        process.env = {...env, OF_PORT: '9696'};
+        (getProjectConfig as jest.Mock).mockReturnValue({NAME: 'layouts'});
+    });
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it('Rejects if OF_PORT isn\'t set', async () => {
+        delete process.env.OF_PORT;
+
+        await expect(getConnection()).rejects.toThrow('OF_PORT isn\'t set');
+    });
+
+    it('Connects again after a failed connection, then shares the connection', async () => {
+        const fin = {wire: {wire: {shutdown: jest.fn()}}};
+
+        (connect as jest.Mock).mockRejectedValueOnce(new Error('Connection refused')).mockResolvedValue(fin);
+
+        await expect(getConnection()).rejects.toThrow('Connection refused');
+        await expect(getConnection()).resolves.toBe(fin);
+        await expect(getConnection()).resolves.toBe(fin);
+
+        expect(connect).toHaveBeenCalledTimes(2);
+        expect(connect).toHaveBeenCalledWith({address: 'ws://localhost:9696', uuid: `test-runner-layouts-${process.pid}`});
+        expect(global).toHaveProperty('fin', fin);
+    });
+});
+
+describe('waitForEvent', () => {
+    it('Resolves with the payload of the event, then removes its listener', async () => {
+        const target = new FakeTarget();
+        const event = waitForEvent(target, 'closed');
+
+        target.emitter.emit('closed', {uuid: 'app'});
+
+        await expect(event).resolves.toEqual({uuid: 'app'});
+        expect(target.emitter.listenerCount('closed')).toEqual(0);
+    });
+
+    it('Ignores events that don\'t match the predicate', async () => {
+        const target = new FakeTarget();
+        const event = waitForEvent<{uuid: string}>(target, 'closed', {predicate: (payload) => payload.uuid === 'app-2'});
+
+        target.emitter.emit('closed', {uuid: 'app-1'});
+        target.emitter.emit('closed', {uuid: 'app-2'});
+
+        await expect(event).resolves.toEqual({uuid: 'app-2'});
+    });
+
+    it('Rejects after the timeout, then removes its listener', async () => {
+        const target = new FakeTarget();
+
+        await expect(waitForEvent(target, 'closed', {timeout: 50})).rejects.toThrow('Timed-out after 50ms waiting for "closed" event');
+        await expect(waitForEvent(target, 'closed', {timeout: 50, description: 'app to close'})).rejects.toThrow('waiting for app to close');
+        expect(target.emitter.listenerCount('closed')).toEqual(0);
+    });
+
+    it('Rejects if the listener can\'t be added', async () => {
+        const target = new FakeTarget();
+
+        jest.spyOn(target, 'addListener').mockRejectedValue(new Error('No such window'));
+
+        await expect(waitForEvent(target, 'closed', {timeout: 100})).rejects.toThrow('No such window');
+    });
+});
+
+describe('waitForCondition', () => {
+    it('Resolves once the condition is met', async () => {
+        let checks = 0;
+
+        await waitForCondition(async () => ++checks === 3, {interval: 10});
+        expect(checks).toEqual(3);
+    });
+
+    it('Rejects after the timeout, and stops checking the condition', async () => {
+        const condition = jest.fn(() => false);
+
+        await expect(waitForCondition(condition, {timeout: 50, interval: 10, description: 'window to move'}))
+            .rejects.toThrow('Timed-out after 50ms waiting for window to move');
+
+        const checks = condition.mock.calls.length;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(condition.mock.calls.length).toBeLessThanOrEqual(checks + 1);
+    });
+});
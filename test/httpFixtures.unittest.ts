@@ -0,0 +1,30 @@
+import * as path from 'path';
+
+import {getFixturePath} from '../src/utils/httpFixtures';
+
+describe('getFixturePath', () => {
+    const fixturesDir = path.join(process.cwd(), 'test/fixtures/http');
+
+    it('Mirrors the host and path of the URL', () => {
+        expect(getFixturePath('https://cdn.openfin.co/services/openfin/layouts/app.json'))
+            .toEqual(path.join(fixturesDir, 'cdn.openfin.co/services/openfin/layouts/app.json.fixture.json'));
+    });
+
+    it('Saves directory URLs as an index file', () => {
+        expect(getFixturePath('https://cdn.openfin.co/release/')).toEqual(path.join(fixturesDir, 'cdn.openfin.co/release/index.fixture.json'));
+    });
+
+    it('Replaces the port separator within the host', () => {
+        expect(getFixturePath('http://example.com:8080/app.json')).toEqual(path.join(fixturesDir, 'example.com_8080/app.json.fixture.json'));
+    });
+
+    it('Gives each distinct querystring its own fixture', () => {
+        const stable = getFixturePath('https://example.com/versions?channel=stable');
+        const beta = getFixturePath('https://example.com/versions?channel=beta');
+
+        expect(stable).toMatch(/versions\.[0-9a-f]{8}\.fixture\.json$/);
+        expect(beta).toMatch(/versions\.[0-9a-f]{8}\.fixture\.json$/);
+        expect(stable).not.toEqual(beta);
+        expect(getFixturePath('https://example.com/versions?channel=stable')).toEqual(stable);
+    });
+});
@@ -0,0 +1,90 @@
+import {JSONSchema, validateSchema} from '../src/utils/jsonSchema';
+
+describe('validateSchema', () => {
+    it('Returns no errors for a valid value', () => {
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: {
+                NAME: {type: 'string'},
+                PORT: {type: 'integer', minimum: 1, maximum: 65535}
+            },
+            required: ['NAME']
+        };
+
+        expect(validateSchema({NAME: 'layouts', PORT: 1337}, schema)).toEqual([]);
+    });
+
+    it('Reports type mismatches', () => {
+        expect(validateSchema('abc', {type: 'number'})).toEqual([{path: '', message: 'expected number, got string'}]);
+        expect(validateSchema(null, {type: ['string', 'boolean']})).toEqual([{path: '', message: 'expected string | boolean, got null'}]);
+        expect(validateSchema([], {type: 'object'})).toEqual([{path: '', message: 'expected object, got array'}]);
+    });
+
+    it('Distinguishes integers from other numbers', () => {
+        expect(validateSchema(3, {type: 'integer'})).toEqual([]);
+        expect(validateSchema(3.5, {type: 'integer'})).toEqual([{path: '', message: 'expected integer, got number'}]);
+    });
+
+    it('Reports enum, pattern and range violations', () => {
+        expect(validateSchema('c', {enum: ['a', 'b']})).toEqual([{path: '', message: 'must be one of "a", "b"'}]);
+        expect(validateSchema('abc', {pattern: '^\\d+$'})).toEqual([{path: '', message: '"abc" does not match pattern ^\\d+$'}]);
+        expect(validateSchema(0, {minimum: 1})).toEqual([{path: '', message: 'must be >= 1'}]);
+        expect(validateSchema(10, {maximum: 5})).toEqual([{path: '', message: 'must be <= 5'}]);
+    });
+
+    it('Reports missing required properties', () => {
+        const schema: JSONSchema = {type: 'object', required: ['NAME', 'PORT']};
+
+        expect(validateSchema({NAME: 'layouts'}, schema)).toEqual([{path: 'PORT', message: 'is required'}]);
+    });
+
+    it('Reports unrecognised properties only when additional properties are disallowed', () => {
+        const schema: JSONSchema = {type: 'object', properties: {NAME: {type: 'string'}}};
+
+        expect(validateSchema({NAME: 'layouts', OTHER: 1}, schema)).toEqual([]);
+        expect(validateSchema({NAME: 'layouts', OTHER: 1}, {...schema, additionalProperties: false})).toEqual([
+            {path: 'OTHER', message: 'is not a recognised property'}
+        ]);
+    });
+
+    it('Validates additional properties against a schema', () => {
+        const schema: JSONSchema = {type: 'object', additionalProperties: {type: 'string'}};
+
+        expect(validateSchema({a: 'x', b: 2}, schema)).toEqual([{path: 'b', message: 'expected string, got number'}]);
+    });
+
+    it('Includes the path of nested errors', () => {
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: {
+                SERVICES: {
+                    type: 'array',
+                    items: {type: 'object', properties: {name: {type: 'string'}}, required: ['name']}
+                }
+            }
+        };
+
+        expect(validateSchema({SERVICES: [{name: 'a'}, {name: 3}, {}]}, schema)).toEqual([
+            {path: 'SERVICES.1.name', message: 'expected string, got number'},
+            {path: 'SERVICES.2.name', message: 'is required'}
+        ]);
+    });
+
+    it('Accepts a value matching any of the anyOf options', () => {
+        const schema: JSONSchema = {anyOf: [{type: 'string'}, {type: 'integer', minimum: 0}]};
+
+        expect(validateSchema('auto', schema)).toEqual([]);
+        expect(validateSchema(8080, schema)).toEqual([]);
+        expect(validateSchema(-1, schema)).toEqual([{path: '', message: 'does not match any of the allowed formats'}]);
+    });
+
+    it('Reports every error, rather than stopping at the first', () => {
+        const schema: JSONSchema = {
+            type: 'object',
+            properties: {NAME: {type: 'string'}, PORT: {type: 'integer'}},
+            additionalProperties: false
+        };
+
+        expect(validateSchema({NAME: 1, PORT: 'x', OTHER: true}, schema)).toHaveLength(3);
+    });
+});
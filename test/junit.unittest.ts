@@ -0,0 +1,111 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {addToJunitTestCase, escapeXml, getJunitTestName, mergeJunitReports} from '../src/testing/junit';
+
+describe('mergeJunitReports', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-junit-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(tempDir);
+    });
+
+    async function writeReport(fileName: string, content: string): Promise<string> {
+        const filePath = path.join(tempDir, fileName);
+
+        await fs.writeFile(filePath, content);
+        return filePath;
+    }
+
+    it('Concatenates suites and sums test counts', async () => {
+        const reports = [
+            await writeReport('a.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="2" failures="1" errors="0" time="3.5">
+  <testsuite name="a"></testsuite>
+</testsuites>`),
+            await writeReport('b.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="3" failures="0" errors="1" time="5.25">
+  <testsuite name="b"></testsuite>
+</testsuites>`)
+        ];
+        const output = path.join(tempDir, 'merged.xml');
+
+        await mergeJunitReports(reports, output);
+
+        expect(await fs.readFile(output, 'utf8')).toEqual(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="5" failures="1" errors="1" time="5.25">
+  <testsuite name="a"></testsuite>
+  <testsuite name="b"></testsuite>
+</testsuites>
+`);
+    });
+
+    it('Handles reports that contain no suites', async () => {
+        const header = '<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="jest tests" tests="0" failures="0" errors="0" time="0.1"';
+        const reports = [await writeReport('empty.xml', `${header}/>`)];
+        const output = path.join(tempDir, 'merged.xml');
+
+        await mergeJunitReports(reports, output);
+
+        expect(await fs.readFile(output, 'utf8')).toEqual(`${header}>\n</testsuites>\n`);
+    });
+
+    it('Skips missing reports, with a warning', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const reports = [
+            path.join(tempDir, 'missing.xml'),
+            await writeReport('a.xml', '<testsuites name="jest tests" tests="1" failures="0" errors="0" time="1">\n</testsuites>')
+        ];
+        const output = path.join(tempDir, 'merged.xml');
+
+        await mergeJunitReports(reports, output);
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(await fs.readFile(output, 'utf8')).toContain('tests="1"');
+        warn.mockRestore();
+    });
+
+    it('Rejects files that aren\'t JUnit reports', async () => {
+        const reports = [await writeReport('invalid.xml', '<html></html>')];
+
+        await expect(mergeJunitReports(reports, path.join(tempDir, 'merged.xml'))).rejects.toThrow('isn\'t a valid JUnit report');
+    });
+});
+
+describe('addToJunitTestCase', () => {
+    const testPath = path.join(process.cwd(), 'app.inttest.ts');
+    const report = [
+        '<testsuite name="app">',
+        '<testcase classname="int.app" name="Windows &gt; opens" time="1">',
+        '</testcase>',
+        '</testsuite>'
+    ].join('\n');
+
+    it('Adds elements to the start or end of the test case', () => {
+        const testCase = {testPath, ancestorTitles: ['Windows'], title: 'opens'};
+
+        expect(addToJunitTestCase(report, testCase, '<first/>', 'start')).toContain('time="1"><first/>\n</testcase>');
+        expect(addToJunitTestCase(report, testCase, '<last/>', 'end')).toContain('time="1">\n<last/></testcase>');
+    });
+
+    it('Returns the report unchanged if the test isn\'t within it', () => {
+        expect(addToJunitTestCase(report, {testPath, ancestorTitles: [], title: 'opens'}, '<first/>', 'start')).toEqual(report);
+    });
+});
+
+describe('JUnit names', () => {
+    it('Joins describe titles and test title, replacing dots', () => {
+        expect(getJunitTestName('Windows > v1.2', 'opens')).toEqual('Windows > v1•2 > opens');
+        expect(getJunitTestName('', 'opens')).toEqual('opens');
+    });
+
+    it('Escapes XML special characters', () => {
+        expect(escapeXml('<a href="x">Tom & Jerry\'s</a>')).toEqual('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+    });
+});
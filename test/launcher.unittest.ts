@@ -0,0 +1,137 @@
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as express from 'express';
+import * as fs from 'fs-extra';
+
+import {FAKE_RUNTIME_PORT, FakeLauncher} from '../src/launcher/fake';
+import {getRootDirectory} from '../src/utils/getRootDirectory';
+
+jest.mock('../src/utils/getRootDirectory');
+
+describe('FakeLauncher', () => {
+    let rootDir: string;
+    let server: http.Server;
+    let origin: string;
+    let log: jest.SpyInstance;
+
+    beforeAll(async () => {
+        const app = express();
+
+        app.get('/app.html', (req, res) => res.send('<html></html>'));
+        app.get('/app.json', (req, res) => res.json({
+            startup_app: {uuid: 'test-app', url: `${origin}/app.html`}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {version: '15.80.50.34'},
+            services: [{name: 'layouts', manifestUrl: `${origin}/provider.json`}]
+        }));
+        app.get('/provider.json', (req, res) => res.json({
+            startup_app: {uuid: 'layouts-service'}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {version: '15.80.50.34'}
+        }));
+        app.get('/platform.json', (req, res) => res.json({platform: {uuid: 'test-platform'}, runtime: {version: 'stable'}}));
+        app.get('/no-uuid.json', (req, res) => res.json({
+            startup_app: {url: `${origin}/app.html`}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {version: 'stable'}
+        }));
+        app.get('/no-runtime.json', (req, res) => res.json({startup_app: {uuid: 'test-app'}})); // eslint-disable-line @typescript-eslint/camelcase
+        app.get('/missing-url.json', (req, res) => res.json({
+            startup_app: {uuid: 'test-app', url: `${origin}/missing.html`}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {version: 'stable'}
+        }));
+        app.get('/unknown-service.json', (req, res) => res.json({
+            startup_app: {uuid: 'test-app'}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {version: 'stable'},
+            services: [{name: 'notifications'}]
+        }));
+
+        server = await new Promise<http.Server>((resolve) => {
+            const listener = app.listen(0, 'localhost', () => resolve(listener));
+        });
+        origin = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-launcher-'));
+        log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+    });
+
+    afterEach(async () => {
+        log.mockRestore();
+        await fs.remove(rootDir);
+    });
+
+    it('Records each launch, along with the services of the manifest', async () => {
+        const launcher = new FakeLauncher();
+
+        expect(await launcher.launch(`${origin}/app.json`)).toEqual(FAKE_RUNTIME_PORT);
+        expect(await launcher.launch(`${origin}/platform.json`)).toEqual(FAKE_RUNTIME_PORT);
+
+        expect(launcher.getLaunches()).toEqual([{
+            manifestUrl: `${origin}/app.json`,
+            uuid: 'test-app',
+            runtime: '15.80.50.34',
+            services: [{name: 'layouts', manifestUrl: `${origin}/provider.json`, uuid: 'layouts-service'}],
+            launched: expect.any(String)
+        }, {
+            manifestUrl: `${origin}/platform.json`,
+            uuid: 'test-platform',
+            runtime: 'stable',
+            services: [],
+            launched: expect.any(String)
+        }]);
+    });
+
+    it('Writes the launch log to the project\'s dist directory', async () => {
+        const launcher = new FakeLauncher();
+
+        await launcher.launch(`${origin}/app.json`);
+
+        expect(await fs.readJson(path.join(rootDir, 'dist/fake-runtime.json'))).toEqual(launcher.getLaunches());
+    });
+
+    it('Rejects manifests that the runtime would fail to launch', async () => {
+        const launcher = new FakeLauncher();
+
+        await expect(launcher.launch(`${origin}/no-uuid.json`)).rejects.toThrow('doesn\'t define an application with a UUID');
+        await expect(launcher.launch(`${origin}/no-runtime.json`)).rejects.toThrow('doesn\'t specify a runtime version');
+        await expect(launcher.launch(`${origin}/missing-url.json`)).rejects.toThrow(`Application URL ${origin}/missing.html returned status 404`);
+        await expect(launcher.launch(`${origin}/unknown-service.json`)).rejects.toThrow('Service notifications');
+        await expect(launcher.launch(`${origin}/missing.json`)).rejects.toThrow('Status code: 404');
+
+        expect(launcher.getLaunches()).toEqual([]);
+    });
+
+    it('Resolves launchAndWait once the application is closed', async () => {
+        const launcher = new FakeLauncher();
+        const closed = jest.fn();
+        const launched = launcher.launchAndWait(`${origin}/app.json`, 'test-app').then(closed);
+
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(closed).not.toHaveBeenCalled();
+
+        launcher.closeApplication('test-app');
+        await launched;
+        expect(closed).toHaveBeenCalled();
+    });
+
+    it('Closes applications and their services after closeAfter', async () => {
+        const launcher = new FakeLauncher({closeAfter: 10});
+
+        await launcher.launchAndWait(`${origin}/app.json`, 'test-app');
+        await launcher.launchAndWait(`${origin}/app.json`, 'layouts-service');
+    });
+
+    it('Rejects launchAndWait if the application isn\'t started by the manifest', async () => {
+        const launcher = new FakeLauncher();
+
+        await expect(launcher.launchAndWait(`${origin}/app.json`, 'other-app')).rejects.toThrow(`Application other-app wasn't started by ${origin}/app.json`);
+    });
+});
@@ -0,0 +1,61 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {LintReport, lintManifests} from '../src/scripts/lintManifests';
+import {getProjectConfig} from '../src/utils/getProjectConfig';
+import {getRootDirectory} from '../src/utils/getRootDirectory';
+
+jest.mock('../src/utils/getProjectConfig');
+jest.mock('../src/utils/getRootDirectory');
+
+describe('lintManifests', () => {
+    const CDN_LOCATION = 'https://cdn.openfin.co/services/openfin/layouts';
+    let rootDir: string;
+    let log: jest.SpyInstance;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-lint-'));
+        log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+        (getProjectConfig as jest.Mock).mockReturnValue({NAME: 'layouts', PORT: 3000, CDN_LOCATION});
+    });
+
+    afterEach(async () => {
+        log.mockRestore();
+        await fs.remove(rootDir);
+    });
+
+    function getReport(): LintReport {
+        return JSON.parse(log.mock.calls[0][0]);
+    }
+
+    it('Skips platform windows that have no layout', async () => {
+        await fs.outputJson(path.join(rootDir, 'res/platform.json'), {
+            platform: {uuid: 'platform'},
+            snapshot: {windows: [{defaultWidth: 800, defaultHeight: 600}]},
+            runtime: {version: 'stable'}
+        });
+
+        expect(lintManifests()).toBe(true);
+        expect(getReport()).toEqual({manifests: 1, errors: 0, warnings: 0, issues: []});
+    });
+
+    it('Reports invalid manifests as issues, and continues with other files', async () => {
+        const runtime = {version: 'stable'};
+        const startupApp = {uuid: 'app', url: `${CDN_LOCATION}/app.html`};
+
+        await fs.outputJson(path.join(rootDir, 'res/a.json'), {platform: {uuid: 'platform'}, snapshot: {windows: [{layout: {}}]}, runtime});
+        await fs.outputFile(path.join(rootDir, 'res/b.json'), '{');
+        await fs.outputJson(path.join(rootDir, 'res/c.json'), {startup_app: startupApp}); // eslint-disable-line @typescript-eslint/camelcase
+
+        expect(lintManifests()).toBe(false);
+        expect(getReport().issues.map((issue) => [issue.file, issue.rule])).toEqual([
+            [path.join('res', 'a.json'), 'lint-failed'],
+            [path.join('res', 'b.json'), 'invalid-json'],
+            [path.join('res', 'c.json'), 'missing-runtime-version']
+        ]);
+    });
+});
@@ -0,0 +1,12 @@
+import {getSingleViewLayout} from '../src/utils/manifests';
+
+describe('getSingleViewLayout', () => {
+    it('Returns a layout containing a single view', () => {
+        expect(getSingleViewLayout('view', 'http://localhost:3000/view.html')).toEqual({
+            content: [{
+                type: 'stack',
+                content: [{type: 'component', componentName: 'view', componentState: {name: 'view', url: 'http://localhost:3000/view.html'}}]
+            }]
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import {getChildArgs, getCombinations} from '../src/testing/matrix';
+
+describe('getCombinations', () => {
+    it('Returns every combination of the values of each axis', () => {
+        expect(getCombinations({runtime: ['stable', 'beta'], asar: [true, false]})).toEqual([
+            {runtime: 'stable', asar: true},
+            {runtime: 'stable', asar: false},
+            {runtime: 'beta', asar: true},
+            {runtime: 'beta', asar: false}
+        ]);
+    });
+
+    it('Returns one combination per value for a single axis', () => {
+        expect(getCombinations({providerVersion: ['local']})).toEqual([{providerVersion: 'local'}]);
+    });
+});
+
+describe('getChildArgs', () => {
+    const argv = process.argv;
+
+    function withArgs(args: string[]): void {
+        process.argv = ['node', 'svc-tools', ...args];
+    }
+
+    afterEach(() => {
+        process.argv = argv;
+    });
+
+    it('Appends the values of the combination to the current args', () => {
+        withArgs(['test', 'int', '--runtime', '9.61.38.40']);
+
+        expect(getChildArgs({runtime: 'stable', asar: true})).toEqual(['test', 'int', '--runtime', '9.61.38.40', '--runtime', 'stable', '--asar', 'true']);
+    });
+
+    it('Removes a --matrix arg that has a file path', () => {
+        withArgs(['test', 'int', '--matrix', 'test/matrix.json', '--fast']);
+
+        expect(getChildArgs({mode: 'runtime'})).toEqual(['test', 'int', '--fast', '--mode', 'runtime']);
+    });
+
+    it('Removes a --matrix arg without a value', () => {
+        withArgs(['test', 'int', '--matrix', '--fast']);
+
+        expect(getChildArgs({asar: false})).toEqual(['test', 'int', '--fast', '--asar', 'false']);
+    });
+
+    it('Removes a --matrix=<path> arg', () => {
+        withArgs(['test', 'int', '--matrix=test/matrix.json']);
+
+        expect(getChildArgs({providerVersion: 'stable'})).toEqual(['test', 'int', '--providerVersion', 'stable']);
+    });
+});
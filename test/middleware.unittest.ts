@@ -0,0 +1,105 @@
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as express from 'express';
+import * as fs from 'fs-extra';
+import fetch from 'node-fetch';
+
+import {createCustomManifestMiddleware} from '../src/server/middleware';
+import {getProjectConfig} from '../src/utils/getProjectConfig';
+import {getRootDirectory} from '../src/utils/getRootDirectory';
+import {getSingleViewLayout, PlatformLayout, PlatformManifest} from '../src/utils/manifests';
+
+jest.mock('../src/utils/getProjectConfig');
+jest.mock('../src/utils/getRootDirectory');
+
+describe('/manifest', () => {
+    const cwd = process.cwd();
+    let rootDir: string;
+    let server: http.Server;
+    let origin: string;
+
+    beforeAll(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-manifest-'));
+        process.chdir(rootDir);
+        await fs.outputJson('res/demo/app.json', {
+            licenseKey: 'license',
+            startup_app: {}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {version: '15.80.50.34'}
+        });
+
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+        (getProjectConfig as jest.Mock).mockReturnValue({NAME: 'layouts', PORT: 3000, CDN_LOCATION: 'https://cdn.openfin.co/layouts'});
+
+        const app = express();
+        app.get('/manifest', createCustomManifestMiddleware());
+
+        server = await new Promise<http.Server>((resolve) => {
+            const listener = app.listen(0, 'localhost', () => resolve(listener));
+        });
+        origin = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        process.chdir(cwd);
+        await fs.remove(rootDir);
+    });
+
+    async function getManifest(query: string): Promise<{status: number; body: string}> {
+        const response = await fetch(`${origin}/manifest?${query}`);
+
+        return {status: response.status, body: await response.text()};
+    }
+
+    it('Returns a platform manifest, with the given layout', async () => {
+        const layout: PlatformLayout = getSingleViewLayout('custom-view', 'http://localhost:3000/custom.html');
+        const {status, body} = await getManifest(`uuid=test-platform&platform=true&useService=false&layout=${encodeURIComponent(JSON.stringify(layout))}`);
+        const manifest: PlatformManifest = JSON.parse(body);
+
+        expect(status).toEqual(200);
+        expect(manifest.platform.uuid).toEqual('test-platform');
+        expect(manifest.runtime.version).toEqual('15.80.50.34');
+        expect(manifest.snapshot.windows).toHaveLength(1);
+        expect(manifest.snapshot.windows[0].layout).toEqual(layout);
+        expect(manifest).not.toHaveProperty('startup_app');
+    });
+
+    it('Defaults to a single view of the app URL', async () => {
+        const {body} = await getManifest(`uuid=test-platform&name=test-view&url=${encodeURIComponent('http://localhost:3000/app.html')}&platform=true`);
+        const manifest: PlatformManifest = JSON.parse(body);
+
+        expect(manifest.snapshot.windows[0].layout).toEqual(getSingleViewLayout('test-view', 'http://localhost:3000/app.html'));
+        expect(manifest.services).toEqual([{name: 'layouts', manifestUrl: 'http://localhost:3000/provider/app.json'}]);
+    });
+
+    it('Rejects layouts that aren\'t valid JSON', async () => {
+        const {status, body} = await getManifest('platform=true&layout=%7Bcontent');
+
+        expect(status).toEqual(400);
+        expect(body).toMatch(/^Invalid "layout" query arg, must be valid JSON: /);
+    });
+
+    it('Rejects config that isn\'t valid JSON', async () => {
+        const {status, body} = await getManifest('config=%7B');
+
+        expect(status).toEqual(400);
+        expect(body).toMatch(/^Invalid "config" query arg, must be valid JSON: /);
+    });
+
+    it('Rejects the use of asar with platforms', async () => {
+        const {status, body} = await getManifest('platform=true&asar=true');
+
+        expect(status).toEqual(400);
+        expect(body).toEqual('"asar=true" can\'t be used with "platform=true", as the service is injected into the startup app');
+    });
+
+    it('Rejects the use of asar by services that aren\'t runtime-injectable', async () => {
+        const {status, body} = await getManifest('asar=true');
+
+        expect(status).toEqual(400);
+        expect(body).toMatch(/^"asar=true" can only be used if the RUNTIME_INJECTABLE config option is set/);
+    });
+});
@@ -0,0 +1,179 @@
+import {spawn, spawnSync} from 'child_process';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import * as fs from 'fs-extra';
+
+import {claimPort, findFreePort, PortLock, readLocks, selectPort} from '../src/server/ports';
+import {getProjectConfig} from '../src/utils/getProjectConfig';
+import {getRootDirectory} from '../src/utils/getRootDirectory';
+
+jest.mock('../src/utils/getProjectConfig');
+jest.mock('../src/utils/getRootDirectory');
+
+describe('Ports', () => {
+    let rootDir: string;
+    let lockfile: string;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'svc-tools-ports-'));
+        lockfile = path.join(rootDir, 'dist/ports.lock');
+
+        (getRootDirectory as jest.Mock).mockReturnValue(rootDir);
+    });
+
+    afterEach(async () => {
+        await fs.remove(rootDir);
+    });
+
+    /**
+     * Returns the ID of a process that is no longer running.
+     */
+    function getExitedPid(): number {
+        return spawnSync(process.execPath, ['-e', '']).pid;
+    }
+
+    function createLock(port: number, pid: number): PortLock {
+        return {port, kind: 'server', pid, command: 'start', started: new Date().toISOString()};
+    }
+
+    /**
+     * Listens on any free port, until the returned server is closed.
+     */
+    function listen(): Promise<net.Server> {
+        return new Promise((resolve) => {
+            const server = net.createServer();
+            server.listen(0, () => resolve(server));
+        });
+    }
+
+    describe('selectPort', () => {
+        it('Accepts port numbers', async () => {
+            expect(await selectPort('8080')).toEqual(8080);
+        });
+
+        it('Rejects invalid ports', async () => {
+            await expect(selectPort('0')).rejects.toThrow('Not a valid port: 0');
+            await expect(selectPort('65536')).rejects.toThrow('Not a valid port: 65536');
+            await expect(selectPort('next')).rejects.toThrow('Not a valid port: next');
+        });
+
+        it('Uses the port within project config, if free', async () => {
+            const server = await listen();
+            const {port} = server.address() as net.AddressInfo;
+
+            await new Promise((resolve) => server.close(resolve));
+            (getProjectConfig as jest.Mock).mockReturnValue({PORT: port});
+
+            expect(await selectPort('auto')).toEqual(port);
+            expect(readLocks('server').map((lock) => lock.port)).toEqual([port]);
+        });
+    });
+
+    describe('findFreePort', () => {
+        it('Returns the preferred port if free, and records it with its kind', async () => {
+            const server = await listen();
+            const {port} = server.address() as net.AddressInfo;
+
+            await new Promise((resolve) => server.close(resolve));
+
+            expect(await findFreePort(port, 'socket')).toEqual(port);
+            expect(readLocks()).toEqual([{port, kind: 'socket', pid: process.pid, command: expect.any(String), started: expect.any(String)}]);
+            expect(readLocks('server')).toEqual([]);
+        });
+
+        it('Falls back to another port if the preferred port is in use', async () => {
+            const server = await listen();
+            const {port} = server.address() as net.AddressInfo;
+
+            try {
+                const freePort = await findFreePort(port, 'server');
+
+                expect(freePort).not.toEqual(port);
+                expect(readLocks().map((lock) => lock.port)).toEqual([freePort]);
+            } finally {
+                await new Promise((resolve) => server.close(resolve));
+            }
+        });
+
+        it('Skips ports that are claimed by other running instances', async () => {
+            await fs.outputJson(lockfile, [createLock(9000, process.ppid)]);
+
+            const port = await findFreePort(9000, 'server');
+
+            expect(port).not.toEqual(9000);
+            expect(readLocks().map((lock) => lock.port)).toEqual([9000, port]);
+        });
+
+        it('Removes entries of instances that are no longer running', async () => {
+            await fs.outputJson(lockfile, [createLock(9000, getExitedPid()), createLock(9001, process.ppid)]);
+
+            expect(readLocks().map((lock) => lock.port)).toEqual([9001]);
+
+            claimPort(9002);
+            expect((await fs.readJson(lockfile)).map((lock: PortLock) => lock.port)).toEqual([9001, 9002]);
+        });
+    });
+
+    describe('claimPort', () => {
+        it('Replaces any existing entry for the port', async () => {
+            await fs.outputJson(lockfile, [createLock(9000, process.ppid)]);
+
+            claimPort(9000);
+
+            expect(readLocks()).toEqual([{...createLock(9000, process.pid), command: expect.any(String), started: expect.any(String)}]);
+        });
+
+        it('Ignores an invalid lockfile', async () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+            await fs.outputFile(lockfile, '[');
+            claimPort(9000);
+
+            expect(warn).toHaveBeenCalledWith(`Ignoring invalid lockfile ${lockfile}`);
+            expect(readLocks().map((lock) => lock.port)).toEqual([9000]);
+            warn.mockRestore();
+        });
+    });
+
+    describe('Lockfile mutex', () => {
+        it('Is released once the lockfile has been updated', () => {
+            claimPort(9000);
+
+            expect(fs.existsSync(`${lockfile}.mutex`)).toBe(false);
+        });
+
+        it('Waits for other processes to release the mutex', async () => {
+            const mutex = `${lockfile}.mutex`;
+            const script = `require('fs').writeFileSync(${JSON.stringify(mutex)}, String(process.pid)); setTimeout(() => {
+                require('fs').unlinkSync(${JSON.stringify(mutex)});
+            }, 500); console.log('locked');`;
+
+            await fs.mkdirp(path.dirname(mutex));
+            const child = spawn(process.execPath, ['-e', script]);
+            await new Promise((resolve) => child.stdout!.once('data', resolve));
+
+            const start = Date.now();
+            claimPort(9000);
+
+            expect(Date.now() - start).toBeGreaterThanOrEqual(200);
+            expect(readLocks().map((lock) => lock.port)).toEqual([9000]);
+            await new Promise((resolve) => child.once('exit', resolve));
+        });
+
+        it('Removes a mutex held by a process that is no longer running', async () => {
+            await fs.outputFile(`${lockfile}.mutex`, getExitedPid().toString());
+
+            claimPort(9000);
+
+            expect(readLocks().map((lock) => lock.port)).toEqual([9000]);
+        });
+
+        it('Times-out if the mutex isn\'t released', async () => {
+            await fs.outputFile(`${lockfile}.mutex`, process.ppid.toString());
+
+            expect(() => claimPort(9000)).toThrow(`Timed-out waiting for ${lockfile}.mutex to be released by process ${process.ppid}`);
+        }, 10000);
+    });
+});
@@ -0,0 +1,81 @@
+import {rewriteLocalServices} from '../src/server/services';
+import {ManifestTransform} from '../src/utils/getManifest';
+import {getProjectConfig} from '../src/utils/getProjectConfig';
+import {ClassicManifest} from '../src/utils/manifests';
+
+jest.mock('../src/utils/getProjectConfig');
+
+describe('rewriteLocalServices', () => {
+    const origin = 'http://localhost:3000/__svc-tools/services';
+
+    function createManifest(): ClassicManifest {
+        return {
+            licenseKey: '',
+            startup_app: {uuid: 'app', name: 'app', url: 'http://localhost:3000/app.html'}, // eslint-disable-line @typescript-eslint/camelcase
+            runtime: {arguments: '', version: 'stable'},
+            services: [
+                {name: 'layouts', manifestUrl: 'https://cdn.openfin.co/services/openfin/layouts/app.json'},
+                {name: 'notifications', manifestUrl: 'https://cdn.openfin.co/services/openfin/notifications/app.json?v=1'},
+                {name: 'workspace'}
+            ]
+        };
+    }
+
+    beforeEach(() => {
+        (getProjectConfig as jest.Mock).mockReturnValue({
+            NAME: 'layouts',
+            PORT: 3000,
+            SERVICES: {layouts: 3000, notifications: 8080, workspace: '../workspace'}
+        });
+    });
+
+    it('Points service declarations at the local server, preserving any query args', () => {
+        const manifest = createManifest();
+
+        rewriteLocalServices(manifest);
+
+        expect(manifest.services).toEqual([
+            {name: 'layouts', manifestUrl: 'https://cdn.openfin.co/services/openfin/layouts/app.json'},
+            {name: 'notifications', manifestUrl: `${origin}/notifications/provider/app.json?v=1`},
+            {name: 'workspace', manifestUrl: `${origin}/workspace/provider/app.json`}
+        ]);
+    });
+
+    it('Sets the manifest of runtime-injected services', () => {
+        const manifest = createManifest();
+        const startupApp: {[key: string]: unknown} = manifest.startup_app;
+
+        startupApp.notificationsApi = true;
+        rewriteLocalServices(manifest);
+
+        expect(startupApp.notificationsManifest).toEqual(`${origin}/notifications/provider/app.json`);
+        expect(startupApp.workspaceManifest).toBeUndefined();
+    });
+
+    it('Records a transform for each change, with the reason', () => {
+        const transforms: ManifestTransform[] = [];
+
+        rewriteLocalServices(createManifest(), transforms);
+
+        expect(transforms).toEqual([{
+            path: 'services.1.manifestUrl',
+            from: 'https://cdn.openfin.co/services/openfin/notifications/app.json?v=1',
+            to: `${origin}/notifications/provider/app.json?v=1`,
+            reason: 'Service "notifications" is mapped to port 8080 by SERVICES config'
+        }, {
+            path: 'services.2.manifestUrl',
+            from: undefined,
+            to: `${origin}/workspace/provider/app.json`,
+            reason: 'Service "workspace" is mapped to checkout ../workspace by SERVICES config'
+        }]);
+    });
+
+    it('Leaves manifests unchanged if there are no SERVICES', () => {
+        const manifest = createManifest();
+
+        (getProjectConfig as jest.Mock).mockReturnValue({NAME: 'layouts', PORT: 3000});
+        rewriteLocalServices(manifest);
+
+        expect(manifest).toEqual(createManifest());
+    });
+});
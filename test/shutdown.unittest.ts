@@ -0,0 +1,264 @@
+import {EventEmitter} from 'events';
+import * as os from 'os';
+
+jest.mock('execa');
+
+type ShutdownModule = typeof import('../src/utils/shutdown');
+
+const EVENTS = ['SIGINT', 'SIGTERM', 'uncaughtException', 'unhandledRejection', 'exit'];
+
+describe('Shutdown', () => {
+    let shutdownModule: ShutdownModule;
+    let execa: jest.Mock & {sync: jest.Mock};
+    let existingListeners: {[event: string]: Function[]};
+    let exit: jest.SpyInstance;
+    let log: jest.SpyInstance;
+    let warn: jest.SpyInstance;
+    let error: jest.SpyInstance;
+
+    /**
+     * Returns the listeners that were added to the process by the shutdown manager during the current test.
+     */
+    function getAddedListeners(event: string): Function[] {
+        return process.listeners(event as 'exit').filter((listener) => !existingListeners[event].includes(listener));
+    }
+
+    /**
+     * Calls the listeners added by the shutdown manager, without emitting the event to any other listeners.
+     */
+    function emitToShutdownManager(event: string, ...args: unknown[]): void {
+        getAddedListeners(event).forEach((listener) => listener(...args));
+    }
+
+    async function waitForExit(): Promise<void> {
+        while (exit.mock.calls.length === 0) {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+        }
+    }
+
+    beforeEach(async () => {
+        existingListeners = {};
+        EVENTS.forEach((event) => {
+            existingListeners[event] = process.listeners(event as 'exit').slice();
+        });
+
+        exit = jest.spyOn(process, 'exit').mockImplementation((() => {}) as () => never);
+        log = jest.spyOn(console, 'log').mockImplementation(() => {});
+        warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        // Each test uses a new instance of the module, as it holds the tracked resources and the shutdown state
+        jest.resetModules();
+        shutdownModule = await import('../src/utils/shutdown');
+        execa = (await import('execa')) as unknown as typeof execa;
+    });
+
+    afterEach(() => {
+        EVENTS.forEach((event) => {
+            getAddedListeners(event).forEach((listener) => process.removeListener(event, listener as () => void));
+        });
+
+        jest.restoreAllMocks();
+    });
+
+    describe('shutdown', () => {
+        it('Closes resources by kind, and in reverse order of creation within each kind', async () => {
+            const closed: string[] = [];
+            const track = (name: string, kind: 'runtime' | 'process' | 'socket' | 'server') => {
+                shutdownModule.trackResource(name, kind, async () => {
+                    closed.push(name);
+                });
+            };
+
+            track('server', 'server');
+            track('socket', 'socket');
+            track('process 1', 'process');
+            track('runtime 1', 'runtime');
+            track('process 2', 'process');
+            track('runtime 2', 'runtime');
+
+            expect(await shutdownModule.shutdown()).toEqual([]);
+            expect(closed).toEqual(['runtime 2', 'runtime 1', 'process 2', 'process 1', 'socket', 'server']);
+        });
+
+        it('Reports resources that couldn\'t be closed, and continues closing the others', async () => {
+            const close = jest.fn();
+
+            shutdownModule.trackResource('Runtime connection', 'runtime', () => {
+                throw new Error('Connection lost');
+            });
+            shutdownModule.trackResource('Local server', 'server', close);
+
+            expect(await shutdownModule.shutdown()).toEqual(['Runtime connection: Connection lost']);
+            expect(close).toHaveBeenCalled();
+            expect(warn.mock.calls[0][0]).toMatch(/Couldn't clean up the following.*\n {2}- Runtime connection: Connection lost$/);
+        });
+
+        it('Reports resources that don\'t close within the timeout', async () => {
+            shutdownModule.trackResource('Jest', 'process', () => new Promise(() => {}));
+
+            expect(await shutdownModule.shutdown()).toEqual(['Jest: Didn\'t close within 5 seconds']);
+        }, 10000);
+
+        it('Only tears down resources once', async () => {
+            const close = jest.fn();
+
+            shutdownModule.trackResource('Local server', 'server', close);
+
+            const result = shutdownModule.shutdown();
+            expect(shutdownModule.shutdown()).toBe(result);
+            await result;
+            expect(close).toHaveBeenCalledTimes(1);
+        });
+
+        it('Skips resources that are no longer tracked', async () => {
+            const close = jest.fn();
+
+            shutdownModule.trackResource('Local server', 'server', close)();
+            await shutdownModule.shutdown();
+
+            expect(close).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Tracked resources', () => {
+        it('Stops tracking child processes once they exit', async () => {
+            const child = Object.assign(new EventEmitter(), {pid: 1234, kill: jest.fn()});
+
+            shutdownModule.trackChildProcess('Jest', child as any);
+            child.emit('exit');
+            await shutdownModule.shutdown();
+
+            expect(child.kill).not.toHaveBeenCalled();
+        });
+
+        it('Sends SIGTERM to child processes on shutdown', async () => {
+            const child: EventEmitter & {pid: number; kill: jest.Mock} = Object.assign(new EventEmitter(), {pid: 1234, kill: jest.fn()});
+
+            child.kill.mockImplementation(() => child.emit('exit'));
+
+            shutdownModule.trackChildProcess('Jest', child as any);
+
+            expect(await shutdownModule.shutdown()).toEqual([]);
+            expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+        });
+
+        it('Closes servers, and stops tracking servers that are closed by other means', async () => {
+            const server = Object.assign(new EventEmitter(), {close: jest.fn((callback: () => void) => callback())});
+            const closedServer = Object.assign(new EventEmitter(), {close: jest.fn()});
+
+            shutdownModule.trackServer('Local server', server);
+            shutdownModule.trackServer('Socket server', closedServer, 'socket');
+            closedServer.emit('close');
+
+            expect(await shutdownModule.shutdown()).toEqual([]);
+            expect(server.close).toHaveBeenCalled();
+            expect(closedServer.close).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Process handlers', () => {
+        it('Shuts down and exits on SIGINT, and exits immediately on a second SIGINT', async () => {
+            let finishClose: () => void = () => {};
+            shutdownModule.trackResource('Local server', 'server', () => new Promise((resolve) => {
+                finishClose = resolve;
+            }));
+
+            emitToShutdownManager('SIGINT');
+            expect(log).toHaveBeenCalledWith('Shutting down (press Ctrl+C again to force)...');
+            expect(exit).not.toHaveBeenCalled();
+
+            emitToShutdownManager('SIGINT');
+            expect(exit).toHaveBeenCalledWith(130);
+
+            // Let the shutdown reach the resource, then finish closing it
+            exit.mockClear();
+            await new Promise((resolve) => setImmediate(resolve));
+            finishClose();
+            await waitForExit();
+            expect(exit).toHaveBeenCalledWith(130);
+        });
+
+        it('Shuts down and exits on SIGTERM', async () => {
+            const close = jest.fn();
+            shutdownModule.trackResource('Local server', 'server', close);
+
+            emitToShutdownManager('SIGTERM');
+            await waitForExit();
+
+            expect(close).toHaveBeenCalled();
+            expect(exit).toHaveBeenCalledWith(143);
+        });
+
+        it('Shuts down and exits on an uncaught error or unhandled rejection', async () => {
+            const close = jest.fn();
+            shutdownModule.trackResource('Local server', 'server', close);
+
+            emitToShutdownManager('uncaughtException', new Error('Uncaught'));
+            await waitForExit();
+            expect(exit).toHaveBeenCalledWith(1);
+
+            exit.mockClear();
+            emitToShutdownManager('unhandledRejection', new Error('Unhandled'));
+            await waitForExit();
+            expect(exit).toHaveBeenCalledWith(1);
+
+            expect(close).toHaveBeenCalledTimes(1);
+            expect(error.mock.calls).toEqual([[new Error('Uncaught')], [new Error('Unhandled')]]);
+        });
+
+        it('Force-closes resources if the process exits without shutting down', () => {
+            const forceClose = jest.fn();
+            shutdownModule.trackResource('Jest', 'process', jest.fn(), forceClose);
+            shutdownModule.trackResource('Runtime', 'runtime', jest.fn(), () => {
+                throw new Error('Access denied');
+            });
+
+            emitToShutdownManager('exit');
+
+            expect(forceClose).toHaveBeenCalled();
+            expect(warn).toHaveBeenCalledWith('Couldn\'t clean up the following, these may need to be closed manually:\n  - Runtime: Access denied');
+        });
+
+        it('Only removes the SIGINT listener of the tmp package', async () => {
+            const tmpListener = {_tmp$sigint_listener: () => {}}._tmp$sigint_listener; // eslint-disable-line @typescript-eslint/camelcase
+            const otherListener = () => {};
+
+            process.on('SIGINT', tmpListener);
+            process.on('SIGINT', otherListener);
+            shutdownModule.trackResource('Local server', 'server', jest.fn());
+
+            expect(process.listeners('SIGINT')).not.toContain(tmpListener);
+            expect(process.listeners('SIGINT')).toContain(otherListener);
+        });
+    });
+
+    describe('killProcessesOnPort', () => {
+        it('Sends SIGTERM to each process listening on the port', async () => {
+            const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+            execa.sync.mockReturnValue({code: 0, stdout: `1234\n5678\n1234\n${process.pid}\n`});
+
+            expect(await shutdownModule.killProcessesOnPort(9696)).toEqual([1234, 5678]);
+            expect(execa.sync).toHaveBeenCalledWith('lsof', ['-t', '-n', '-iTCP:9696', '-sTCP:LISTEN'], {reject: false});
+            expect(kill.mock.calls).toEqual([[1234, 'SIGTERM'], [5678, 'SIGTERM']]);
+        });
+
+        it('Falls back to fuser, and reports if neither command is installed', async () => {
+            execa.sync.mockReturnValue({code: 'ENOENT'});
+
+            const message = 'Couldn\'t find the process listening on port 9696, as neither "lsof" nor "fuser" is installed';
+
+            await expect(shutdownModule.killProcessesOnPort(9696)).rejects.toThrow(message);
+            expect(execa.sync).toHaveBeenCalledWith('fuser', ['-n', 'tcp', '9696'], {reject: false});
+        });
+
+        it('Reports processes that couldn\'t be killed on Windows', async () => {
+            jest.spyOn(os, 'platform').mockReturnValue('win32');
+            execa.sync.mockReturnValue({stdout: '  TCP    127.0.0.1:9696    0.0.0.0:0    LISTENING    1234\r\n'});
+            execa.mockResolvedValue({code: 128, stderr: 'ERROR: Access is denied.\r\n'});
+
+            await expect(shutdownModule.killProcessesOnPort(9696)).rejects.toThrow('Couldn\'t kill process 1234 on port 9696: ERROR: Access is denied.');
+            expect(execa).toHaveBeenCalledWith('taskkill', ['/F', '/T', '/PID', '1234'], {reject: false});
+        });
+    });
+});
@@ -0,0 +1,246 @@
+import {Identity} from 'openfin/_v2/main';
+
+import {closeAllSpawned, createApp, createPlatform, createPlatformWindow, createView, createWindow, listSpawned} from '../src/spawn';
+import {getProjectConfig} from '../src/utils/getProjectConfig';
+import {getSingleViewLayout} from '../src/utils/manifests';
+
+jest.mock('../src/utils/getProjectConfig');
+
+/**
+ * Stand-in for an OpenFin application, window or view. Records the listeners added to it, so that events can be emitted
+ * by the test.
+ */
+class FakeEmitter {
+    public readonly identity: Identity;
+    private readonly listeners: {[eventType: string]: ((event: unknown) => void)[]} = {};
+
+    constructor(identity: Identity) {
+        this.identity = identity;
+    }
+
+    public async addListener(eventType: string, listener: (event: unknown) => void): Promise<void> {
+        this.listeners[eventType] = [...(this.listeners[eventType] || []), listener];
+    }
+
+    public emit(eventType: string, event: unknown = this.identity): void {
+        (this.listeners[eventType] || []).forEach((listener) => listener(event));
+    }
+}
+
+describe('Spawn registry', () => {
+    const parent = {uuid: 'parent-app'};
+    let emitters: {[id: string]: FakeEmitter};
+    let closed: string[];
+    let dispatch: jest.Mock;
+    let platform: {identity: {uuid: string}; createWindow: jest.Mock; createView: jest.Mock};
+    let platformApi: {start: jest.Mock; startFromManifest: jest.Mock; getCurrentSync: () => typeof platform; wrapSync: jest.Mock};
+
+    function getEmitter(identity: Identity): FakeEmitter {
+        const id = `${identity.uuid}/${identity.name || ''}`;
+
+        emitters[id] = emitters[id] || new FakeEmitter(identity);
+        return emitters[id];
+    }
+
+    function stubFin(hasViewApi: boolean): void {
+        const fin = {
+            Application: {
+                getCurrentSync: () => ({identity: {uuid: 'test-runner'}}),
+                wrapSync: (identity: Identity) => Object.assign(getEmitter({uuid: identity.uuid}), {
+                    quit: async () => {
+                        closed.push(`app ${identity.uuid}`);
+                    }
+                })
+            },
+            Window: {
+                wrapSync: (identity: Identity) => Object.assign(getEmitter(identity), {
+                    close: async () => {
+                        closed.push(`window ${identity.uuid}/${identity.name}`);
+                    }
+                })
+            },
+            Platform: platformApi,
+            View: hasViewApi ? {wrapSync: getEmitter} : undefined,
+            System: {
+                getVersion: async () => '15.80.50.34'
+            },
+            InterApplicationBus: {
+                Channel: {
+                    connect: async () => ({dispatch})
+                }
+            }
+        };
+
+        Object.assign(global, {fin});
+    }
+
+    beforeEach(() => {
+        emitters = {};
+        closed = [];
+        dispatch = jest.fn(async (action: string, options: Identity & {id: string}) => {
+            if (action === 'closeView') {
+                closed.push(`view ${options.uuid}/${options.name}`);
+                return {uuid: options.uuid, name: options.name};
+            } else if (action === 'createApplication' || action === 'createPlatform') {
+                return {uuid: options.id, name: options.id};
+            } else {
+                return {uuid: 'platform', name: options.id};
+            }
+        });
+
+        platform = {
+            identity: {uuid: 'platform'},
+            createWindow: jest.fn(async (options: {name: string}) => getEmitter({uuid: 'platform', name: options.name})),
+            createView: jest.fn(async (options: {name: string}) => ({identity: {uuid: 'platform', name: options.name}}))
+        };
+        platformApi = {
+            start: jest.fn(async () => platform),
+            startFromManifest: jest.fn(async () => platform),
+            getCurrentSync: () => platform,
+            wrapSync: jest.fn(() => platform)
+        };
+
+        stubFin(true);
+    });
+
+    afterEach(async () => {
+        await closeAllSpawned();
+    });
+
+    it('Records each entity, along with the app that created it', async () => {
+        await createApp({id: 'app', parent});
+        await createWindow({id: 'window', parent});
+
+        expect(listSpawned()).toEqual([
+            {type: 'application', identity: {uuid: 'app'}, parent},
+            {type: 'window', identity: {uuid: 'platform', name: 'window'}, parent}
+        ]);
+    });
+
+    it('Returns a copy of the registry', async () => {
+        await createApp({id: 'app', parent});
+
+        listSpawned().pop();
+        expect(listSpawned()).toHaveLength(1);
+    });
+
+    it('Removes applications and windows once they close', async () => {
+        await createApp({id: 'app', parent});
+        await createWindow({id: 'window', parent});
+
+        getEmitter({uuid: 'app'}).emit('closed');
+        expect(listSpawned().map((entity) => entity.type)).toEqual(['window']);
+
+        getEmitter({uuid: 'platform', name: 'window'}).emit('closed');
+        expect(listSpawned()).toEqual([]);
+    });
+
+    it('Removes views once they are destroyed', async () => {
+        await createView({id: 'view', parent});
+
+        getEmitter({uuid: 'platform', name: 'view'}).emit('destroyed');
+        expect(listSpawned()).toEqual([]);
+    });
+
+    it('Removes views once their platform closes', async () => {
+        await createPlatform({id: 'platform', parent});
+        await createView({id: 'view', parent});
+
+        getEmitter({uuid: 'platform'}).emit('closed');
+        expect(listSpawned()).toEqual([]);
+    });
+
+    it('Uses the platform\'s view-destroyed events if the View API isn\'t available', async () => {
+        stubFin(false);
+        await createView({id: 'view-1', parent});
+        await createView({id: 'view-2', parent});
+
+        const platformApp = getEmitter({uuid: 'platform'});
+
+        platformApp.emit('view-destroyed', {uuid: 'platform', name: 'platform', viewIdentity: {uuid: 'platform', name: 'view-3'}});
+        expect(listSpawned()).toHaveLength(2);
+
+        platformApp.emit('view-destroyed', {uuid: 'platform', name: 'platform', viewIdentity: {uuid: 'platform', name: 'view-1'}});
+        expect(listSpawned().map((entity) => entity.identity.name)).toEqual(['view-2']);
+
+        platformApp.emit('view-destroyed', {uuid: 'platform', name: 'view-2'});
+        expect(listSpawned()).toEqual([]);
+    });
+
+    it('Closes views, then windows, then applications', async () => {
+        await createApp({id: 'app', parent});
+        await createWindow({id: 'window', parent});
+        await createView({id: 'view', parent});
+
+        await closeAllSpawned();
+
+        expect(closed).toEqual(['view platform/view', 'window platform/window', 'app app']);
+        expect(listSpawned()).toEqual([]);
+    });
+
+    it('Continues closing entities if any fail to close', async () => {
+        dispatch.mockImplementation(async (action: string, options: {id: string}) => {
+            if (action === 'closeView') {
+                throw new Error('View already closed');
+            }
+            return {uuid: options.id, name: options.id};
+        });
+        await createView({id: 'view', parent});
+        await createApp({id: 'app', parent});
+
+        await closeAllSpawned();
+
+        expect(closed).toEqual(['app app']);
+        expect(listSpawned()).toEqual([]);
+    });
+
+    describe('Platforms and views', () => {
+        const layout = getSingleViewLayout('custom-view', 'http://localhost:3000/custom.html');
+
+        beforeEach(() => {
+            (getProjectConfig as jest.Mock).mockReturnValue({PORT: 3000});
+        });
+
+        it('Starts programmatic platforms, with a window containing a single view', async () => {
+            const app = await createPlatform({id: 'platform', type: 'programmatic', url: 'http://localhost:3000/app.html'});
+
+            expect(app.identity).toEqual({uuid: 'platform'});
+            expect(platformApi.start).toHaveBeenCalledWith({uuid: 'platform'});
+            expect(platform.createWindow).toHaveBeenCalledWith(expect.objectContaining({
+                name: 'platform-window',
+                layout: getSingleViewLayout('platform-view', 'http://localhost:3000/app.html')
+            }));
+            expect(listSpawned()).toEqual([{type: 'application', identity: {uuid: 'platform'}}]);
+        });
+
+        it('Starts manifest-based platforms from the local server\'s /manifest endpoint', async () => {
+            await createPlatform({id: 'platform', layout});
+
+            const manifestUrl = new URL(platformApi.startFromManifest.mock.calls[0][0]);
+
+            expect(manifestUrl.origin + manifestUrl.pathname).toEqual('http://localhost:3000/manifest');
+            expect(manifestUrl.searchParams.get('uuid')).toEqual('platform');
+            expect(manifestUrl.searchParams.get('runtime')).toEqual('15.80.50.34');
+            expect(manifestUrl.searchParams.get('platform')).toEqual('true');
+            expect(JSON.parse(manifestUrl.searchParams.get('layout')!)).toEqual(layout);
+        });
+
+        it('Creates windows within the current platform', async () => {
+            const window = await createPlatformWindow({id: 'window', layout});
+
+            expect(window.identity).toEqual({uuid: 'platform', name: 'window'});
+            expect(platform.createWindow).toHaveBeenCalledWith(expect.objectContaining({name: 'window', layout}));
+            expect(listSpawned()).toEqual([{type: 'window', identity: {uuid: 'platform', name: 'window'}}]);
+        });
+
+        it('Creates views within the target window\'s platform', async () => {
+            const target = {uuid: 'platform', name: 'window'};
+            const identity = await createView({id: 'view', url: 'http://localhost:3000/view.html', target});
+
+            expect(identity).toEqual({uuid: 'platform', name: 'view'});
+            expect(platformApi.wrapSync).toHaveBeenCalledWith({uuid: 'platform'});
+            expect(platform.createView).toHaveBeenCalledWith({name: 'view', url: 'http://localhost:3000/view.html'}, target);
+            expect(listSpawned()).toEqual([{type: 'view', identity}]);
+        });
+    });
+});